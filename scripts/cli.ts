@@ -0,0 +1,270 @@
+/**
+ * @fileoverview json-gather 命令列入口
+ *
+ * 統一執行已註冊的爬蟲，並依執行結果設定結束代碼。
+ *
+ * @example
+ * ```bash
+ * pnpm json-gather list
+ * pnpm json-gather run horoscope
+ * pnpm json-gather run --all
+ * pnpm json-gather import-calendar ./116年行事曆.csv --dry-run
+ * pnpm json-gather merge-manifest /tmp/manifest.json horoscope
+ * pnpm json-gather generate-schemas --check
+ * pnpm json-gather serve --port 4000
+ * ```
+ */
+
+import path from 'path';
+import type { DataManifest, Scraper, ScraperRunSummary } from '../types';
+import { PUBLISHED_SCHEMAS } from '../types/schemas';
+import {
+    getDataFilePath,
+    getErrorMessage,
+    logger,
+    mergeManifest,
+    readJsonFile,
+    writeRunSummary,
+    writeSchemaDocuments,
+} from '../utils';
+import { startDevServer } from './dev-server';
+import { getScraper, listScrapers } from './registry';
+import { importCalendarCsv } from './tw-calendar-import';
+
+/** 使用說明 */
+const USAGE = `用法:
+  json-gather list              列出所有爬蟲
+  json-gather run <name...>     執行指定爬蟲
+  json-gather run --all         執行所有爬蟲
+  json-gather import-calendar <file.csv> [--dry-run]
+                                匯入行事曆 CSV 並重新轉換（--dry-run 只顯示差異）
+  json-gather merge-manifest <manifest.json> <name...>
+                                將另一份資料清單中指定爬蟲的端點併入 data/manifest.json
+  json-gather generate-schemas [--check]
+                                產生 data/schemas/ 的 JSON Schema（--check 只檢查是否最新）
+  json-gather serve [--port <port>]
+                                以本機伺服器提供 data/（預設連接埠 4000，支援查詢參數篩選）
+
+環境變數:
+  LOG_LEVEL=debug|info|warn|error  最低輸出等級（預設 info）
+  LOG_FORMAT=json                  每行輸出一筆 JSON`;
+
+/** 本機開發伺服器的預設連接埠 */
+const DEFAULT_SERVE_PORT = 4000;
+
+/** 執行後寫出執行摘要的指令 */
+const SUMMARY_COMMANDS = ['run', 'import-calendar'];
+
+/** 本次執行的各爬蟲摘要 */
+const runSummaries: ScraperRunSummary[] = [];
+
+/**
+ * 列出所有已註冊的爬蟲。
+ */
+const printScraperList = (): void => {
+    const scrapers = listScrapers();
+    const width = Math.max(...scrapers.map((scraper) => scraper.name.length)) + 2;
+    for (const scraper of scrapers) {
+        console.log(`${scraper.name.padEnd(width)}${scraper.description}`);
+    }
+};
+
+/**
+ * 依序執行多個爬蟲。
+ *
+ * @param scrapers - 要執行的爬蟲
+ * @returns 各爬蟲的執行摘要
+ */
+const runScrapers = async (scrapers: readonly Scraper[]): Promise<ScraperRunSummary[]> => {
+    const summaries: ScraperRunSummary[] = [];
+    for (const scraper of scrapers) {
+        summaries.push(await scraper.run());
+    }
+    runSummaries.push(...summaries);
+    return summaries;
+};
+
+/**
+ * 將執行摘要寫入 logs/，寫入失敗只輸出警告。
+ *
+ * @param success - 是否成功
+ */
+const saveRunSummary = (success: boolean): void => {
+    try {
+        const filePath = writeRunSummary(process.argv.slice(2), runSummaries, success);
+        logger.info(`執行摘要已保存至: ${filePath}`);
+    } catch (error) {
+        logger.warn('執行摘要寫入失敗', getErrorMessage(error));
+    }
+};
+
+/**
+ * 解析 run 指令的參數並取得要執行的爬蟲。
+ *
+ * @param args - 指令參數
+ * @returns 要執行的爬蟲列表
+ * @throws 若未指定爬蟲或名稱不存在則拋出錯誤
+ */
+const resolveScrapers = (args: string[]): readonly Scraper[] => {
+    if (args.includes('--all')) {
+        return listScrapers();
+    }
+
+    if (args.length === 0) {
+        throw new Error(`請指定爬蟲名稱或 --all\n${USAGE}`);
+    }
+
+    return args.map((name) => {
+        const scraper = getScraper(name);
+        if (!scraper) {
+            throw new Error(`找不到爬蟲: ${name}（可用 json-gather list 查看）`);
+        }
+        return scraper;
+    });
+};
+
+/**
+ * 匯入行事曆 CSV，有寫入檔案時接著執行行事曆轉換。
+ *
+ * @param args - 指令參數
+ * @returns 是否成功
+ * @throws 若未指定檔案則拋出錯誤
+ */
+const importCalendar = async (args: string[]): Promise<boolean> => {
+    const filePath = args.find((arg) => !arg.startsWith('--'));
+    if (!filePath) {
+        throw new Error(`請指定 CSV 檔案路徑\n${USAGE}`);
+    }
+
+    const results = importCalendarCsv(filePath, { dryRun: args.includes('--dry-run') });
+    if (!results.some((result) => result.written)) {
+        logger.info('沒有寫入任何檔案，略過行事曆轉換');
+        return true;
+    }
+
+    const [summary] = await runScrapers(resolveScrapers(['tw-calendar']));
+    return summary.success;
+};
+
+/**
+ * 將另一份資料清單中指定爬蟲的端點併入 data/manifest.json。
+ *
+ * 排程先保存本次的資料清單、拉取最新程式碼後再合併，避免覆蓋其他排程更新的端點。
+ *
+ * @param args - 指令參數
+ * @throws 若未指定檔案或爬蟲名稱則拋出錯誤
+ */
+const mergeManifestFile = (args: string[]): void => {
+    const [filePath, ...names] = args;
+    if (!filePath || names.length === 0) {
+        throw new Error(`請指定資料清單路徑與爬蟲名稱\n${USAGE}`);
+    }
+
+    const source = readJsonFile<DataManifest>(path.basename(filePath), path.dirname(filePath));
+    const scrapers = resolveScrapers(names).map((scraper) => scraper.name);
+    logger.info(`已將 ${scrapers.join(', ')} 的端點併入: ${mergeManifest(source, scrapers)}`);
+};
+
+/**
+ * 產生公開的 JSON Schema 文件。
+ *
+ * @param args - 指令參數
+ */
+const generateSchemas = (args: string[]): void => {
+    const check = args.includes('--check');
+    const filePaths = writeSchemaDocuments(PUBLISHED_SCHEMAS, { check });
+
+    if (check) {
+        logger.success(`${PUBLISHED_SCHEMAS.length} 份 JSON Schema 皆為最新`);
+        return;
+    }
+    for (const filePath of filePaths) {
+        logger.info(`已保存至: ${filePath}`);
+    }
+    logger.success(`完成，新產生 ${filePaths.length} 份 JSON Schema`);
+};
+
+/**
+ * 啟動本機開發伺服器，直到按下 Ctrl+C 為止。
+ *
+ * @param args - 指令參數
+ * @throws 若連接埠格式錯誤則拋出錯誤
+ */
+const serve = async (args: string[]): Promise<void> => {
+    const portIndex = args.indexOf('--port');
+    const port = portIndex >= 0 ? Number(args[portIndex + 1]) : DEFAULT_SERVE_PORT;
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`連接埠格式錯誤: ${args[portIndex + 1]}\n${USAGE}`);
+    }
+
+    await startDevServer({ port, directory: getDataFilePath('') });
+};
+
+/**
+ * 主函數：解析命令列參數並執行對應指令。
+ */
+const main = async (): Promise<void> => {
+    const [command, ...args] = process.argv.slice(2);
+
+    switch (command) {
+        case 'list':
+            printScraperList();
+            return;
+
+        case 'run': {
+            const summaries = await runScrapers(resolveScrapers(args));
+            const failed = summaries.filter((summary) => !summary.success);
+
+            if (summaries.length > 1) {
+                logger.info('執行結果:');
+                for (const summary of summaries) {
+                    const status = summary.success
+                        ? summary.regressions.length > 0
+                            ? `成功（${summary.regressions.length} 個檔案保留前一版）`
+                            : '成功'
+                        : '失敗';
+                    logger.info(`${summary.name}: ${status} (${(summary.processingTimeMs / 1000).toFixed(1)} 秒)`);
+                }
+            }
+
+            saveRunSummary(failed.length === 0);
+            if (failed.length > 0) {
+                process.exit(1);
+            }
+            return;
+        }
+
+        case 'import-calendar': {
+            const success = await importCalendar(args);
+            saveRunSummary(success);
+            if (!success) {
+                process.exit(1);
+            }
+            return;
+        }
+
+        case 'merge-manifest':
+            mergeManifestFile(args);
+            return;
+
+        case 'generate-schemas':
+            generateSchemas(args);
+            return;
+
+        case 'serve':
+            await serve(args);
+            return;
+
+        default:
+            console.log(USAGE);
+            process.exit(command ? 1 : 0);
+    }
+};
+
+main().catch((error) => {
+    logger.error('程式執行失敗', getErrorMessage(error));
+    if (SUMMARY_COMMANDS.includes(process.argv[2])) {
+        saveRunSummary(false);
+    }
+    process.exit(1);
+});
@@ -1,27 +1,41 @@
 /**
  * @fileoverview 文案資料抓取腳本
  *
- * 從多個 API 獲取愛情、搞笑、騷話等類型的文案資料，
- * 每種類型收集指定數量的不重複文案，並自動轉換為繁體中文。
+ * 從多個 API 獲取愛情、搞笑、騷話等類型的文案資料，並自動轉換為繁體中文。
+ * 每種類型維護一個累積的文案池：新文案以內容雜湊作為穩定 ID 併入，
+ * 既有文案保留原本的收錄時間，超過上限時移除最早收錄的文案。
  *
  * @example
  * ```bash
  * pnpm run scrape:copywriting
+ * # 或
+ * pnpm json-gather run copywriting
  * ```
  */
 
-import axios from 'axios';
-
-import type { CopywritingApiConfig, CopywritingItem, CopywritingOutput, TypeResult } from '../types';
+import type {
+    ChineseConversionConfig,
+    CopywritingApiConfig,
+    CopywritingItem,
+    CopywritingOutput,
+    CopywritingPoolResult,
+    CopywritingTypeResult,
+    Logger,
+    QualityGate,
+    ScraperResult,
+} from '../types';
+import { copywritingOutputSchema } from '../types/schemas';
 import {
+    createHttpClient,
+    defineScraper,
     delay,
-    logger,
-    writeJsonFile,
-    readJsonFile,
+    hashContent,
+    tryReadJsonFile,
     initializeChineseConverter,
     isConverterAvailable,
-    convertToTraditional,
+    convertManyToTraditional,
     getErrorMessage,
+    getSchemaUrl,
 } from '../utils';
 
 // ============================================================================
@@ -52,14 +66,35 @@ const API_CONFIGS: Record<string, CopywritingApiConfig> = {
 
 /** 基礎配置 */
 const CONFIG = {
+    /** 每次執行最多新收集的文案數 */
     TARGET_COUNT: 50,
+    /** 文案池上限，超過時移除最早收錄的文案 */
+    POOL_SIZE: 500,
+    /** 內容雜湊 ID 的長度 */
+    ID_LENGTH: 12,
     TIMEOUT: 10000,
     MAX_RETRIES: 3,
-    RETRY_DELAY: 2000,
+    RETRY_BASE_DELAY: 2000,
     REQUEST_DELAY: 1000,
     MAX_REQUEST_MULTIPLIER: 3,
 } as const;
 
+/**
+ * 簡繁轉換：文案池以轉換後的內容去重，更換設定檔會讓既有文案與新文案的字形不一致，
+ * 因此維持台灣正體字形而不轉換慣用詞
+ */
+const CHINESE_CONVERSION: ChineseConversionConfig = { profile: 'tw' };
+
+/** 品質門檻：文案池低於 40 則或少於前一版的 80% 時保留前一版檔案 */
+const QUALITY_GATE: QualityGate = { field: 'totalCount', min: 40, minRatioOfPrevious: 0.8 };
+
+/** 共用的 HTTP 客戶端 */
+const httpClient = createHttpClient({
+    timeout: CONFIG.TIMEOUT,
+    maxRetries: CONFIG.MAX_RETRIES,
+    baseDelay: CONFIG.RETRY_BASE_DELAY,
+});
+
 // ============================================================================
 // 文案抓取函數
 // ============================================================================
@@ -68,162 +103,260 @@ const CONFIG = {
  * 抓取單則文案。
  *
  * @param apiConfig - API 配置
- * @param retryCount - 目前重試次數
- * @returns 文案內容，失敗時返回 null
+ * @returns 未轉換的文案原文，失敗時返回 null
  */
-const fetchCopywriting = async (apiConfig: CopywritingApiConfig, retryCount = 0): Promise<string | null> => {
-    try {
-        const response = await axios.get(apiConfig.url, {
-            timeout: CONFIG.TIMEOUT,
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                Accept: 'application/json',
-            },
-        });
-
-        const responseData = response.data as Record<string, unknown>;
-        if (responseData && responseData[apiConfig.responseKey]) {
-            const originalText = String(responseData[apiConfig.responseKey]);
-            return await convertToTraditional(originalText);
-        }
+const fetchCopywriting = async (apiConfig: CopywritingApiConfig): Promise<string | null> => {
+    const result = await httpClient.get<Record<string, unknown>>(apiConfig.url, {
+        validate: (data) => (data && data[apiConfig.responseKey] ? null : 'API 返回格式錯誤'),
+    });
 
-        throw new Error(`API 返回格式錯誤`);
-    } catch {
-        if (retryCount < CONFIG.MAX_RETRIES) {
-            await delay(CONFIG.RETRY_DELAY);
-            return fetchCopywriting(apiConfig, retryCount + 1);
-        }
+    if (!result.ok) {
         return null;
     }
+
+    return String(result.data[apiConfig.responseKey]);
 };
 
 /**
- * 收集指定數量的不重複文案。
+ * 收集指定數量、且不在既有文案池中的新文案。
+ *
+ * 每輪只請求尚缺的數量，整輪的原文一次轉換為繁體後再與既有文案池比對去除重複。
  *
  * @param apiConfig - API 配置
- * @returns 收集到的文案陣列
+ * @param knownTexts - 既有文案池的內容
+ * @param log - 日誌
+ * @returns 本次新收集的文案與成功回應的次數
  */
-const collectUniqueCopywritings = async (apiConfig: CopywritingApiConfig): Promise<string[]> => {
-    logger.info(`收集 ${apiConfig.name}...`);
+const collectUniqueCopywritings = async (
+    apiConfig: CopywritingApiConfig,
+    knownTexts: Set<string>,
+    log: Logger,
+): Promise<{ texts: string[]; fetchedCount: number }> => {
+    log.info(`收集 ${apiConfig.name}...`);
 
     const uniqueTexts = new Set<string>();
     const maxRequests = CONFIG.TARGET_COUNT * CONFIG.MAX_REQUEST_MULTIPLIER;
     let totalRequests = 0;
+    let fetchedCount = 0;
 
     while (uniqueTexts.size < CONFIG.TARGET_COUNT && totalRequests < maxRequests) {
-        totalRequests++;
-        const text = await fetchCopywriting(apiConfig);
+        const roundSize = Math.min(CONFIG.TARGET_COUNT - uniqueTexts.size, maxRequests - totalRequests);
+        const rawTexts = new Set<string>();
 
-        if (text && !uniqueTexts.has(text)) {
-            uniqueTexts.add(text);
-        }
+        for (let i = 0; i < roundSize; i++) {
+            totalRequests++;
+            const text = await fetchCopywriting(apiConfig);
+            if (text) {
+                fetchedCount++;
+                rawTexts.add(text);
+            }
 
-        await delay(CONFIG.REQUEST_DELAY);
+            await delay(CONFIG.REQUEST_DELAY);
+        }
 
-        // 每 25 次請求顯示進度
-        if (totalRequests % 25 === 0) {
-            logger.progress(uniqueTexts.size, CONFIG.TARGET_COUNT);
+        const convertedTexts = await convertManyToTraditional([...rawTexts], CHINESE_CONVERSION.profile);
+        for (const text of convertedTexts) {
+            if (!knownTexts.has(text)) {
+                uniqueTexts.add(text);
+            }
         }
+
+        log.progress(uniqueTexts.size, CONFIG.TARGET_COUNT);
     }
 
-    logger.success(`${apiConfig.name}: ${uniqueTexts.size}/${CONFIG.TARGET_COUNT}`);
-    return Array.from(uniqueTexts);
+    log.success(`${apiConfig.name}: 新增 ${uniqueTexts.size}/${CONFIG.TARGET_COUNT}`);
+    return { texts: Array.from(uniqueTexts), fetchedCount };
 };
 
+// ============================================================================
+// 文案池函數
+// ============================================================================
+
 /**
- * 將文案資料儲存為 JSON 檔案。
+ * 建立單則文案，ID 由內容雜湊產生。
+ *
+ * @param content - 文案內容
+ * @param addedAt - 首次收錄時間
+ * @returns 文案資料
+ */
+const createCopywritingItem = (content: string, addedAt: string): CopywritingItem => ({
+    id: hashContent(content, CONFIG.ID_LENGTH),
+    content,
+    length: content.length,
+    addedAt,
+});
+
+/**
+ * 讀取既有的文案池。
+ *
+ * 舊版檔案的流水號 ID 會改為內容雜湊，並保留原本的收錄時間。
  *
  * @param apiConfig - API 配置
- * @param texts - 文案內容陣列
+ * @returns 既有文案列表，檔案不存在時為空陣列
  */
-const saveCopywritingsToFile = (apiConfig: CopywritingApiConfig, texts: string[]): void => {
-    const now = new Date();
-
-    const outputData: CopywritingOutput = {
-        type: apiConfig.name,
-        updated: now.toISOString(),
-        updateTime: now.toLocaleString('zh-TW', { timeZone: 'Asia/Taipei' }),
-        totalCount: texts.length,
-        targetCount: CONFIG.TARGET_COUNT,
-        completionRate: `${((texts.length / CONFIG.TARGET_COUNT) * 100).toFixed(1)}%`,
-        convertedToTraditional: isConverterAvailable(),
-        copywritings: texts.map(
-            (text, index): CopywritingItem => ({
-                id: index + 1,
-                content: text,
-                length: text.length,
-                addedAt: now.toISOString(),
-            }),
-        ),
-    };
-
-    writeJsonFile(apiConfig.filename, outputData);
+const loadExistingPool = (apiConfig: CopywritingApiConfig): CopywritingItem[] => {
+    const previous = tryReadJsonFile<CopywritingOutput>(apiConfig.filename);
+    return (previous?.copywritings ?? []).map((item) => createCopywritingItem(item.content, item.addedAt));
 };
 
-// ============================================================================
-// 主程式
-// ============================================================================
-
 /**
- * 主函數：抓取所有類型的文案並儲存為 JSON 檔案。
+ * 將新文案併入文案池，超過上限時移除最早收錄的文案。
+ *
+ * @param existing - 既有文案
+ * @param texts - 本次新收集的文案
+ * @param addedAt - 本次收錄時間
+ * @returns 合併後的文案池
  */
-const main = async (): Promise<void> => {
-    logger.info('開始抓取文案資料...');
-
-    await initializeChineseConverter();
-
-    const startTime = Date.now();
-    const results: Record<string, TypeResult> = {};
-
-    for (const [key, apiConfig] of Object.entries(API_CONFIGS)) {
-        try {
-            const texts = await collectUniqueCopywritings(apiConfig);
-            saveCopywritingsToFile(apiConfig, texts);
-            results[key] = { success: true, count: texts.length };
-        } catch (error) {
-            logger.error(`${apiConfig.name} 失敗`, getErrorMessage(error));
-            results[key] = { success: false, count: 0 };
+const mergeIntoPool = (
+    existing: CopywritingItem[],
+    texts: string[],
+    addedAt: string,
+): Omit<CopywritingPoolResult, 'fetchedCount'> => {
+    const pool = new Map<string, CopywritingItem>();
+    for (const item of existing) {
+        if (!pool.has(item.id)) {
+            pool.set(item.id, item);
         }
     }
 
-    const endTime = Date.now();
-    let totalCount = 0;
-    const totalTarget = Object.keys(API_CONFIGS).length * CONFIG.TARGET_COUNT;
+    let newCount = 0;
+    for (const text of texts) {
+        const item = createCopywritingItem(text, addedAt);
+        if (!pool.has(item.id)) {
+            pool.set(item.id, item);
+            newCount++;
+        }
+    }
+
+    // 依收錄時間由舊到新排列（同時間維持原順序），超過上限時從最舊的開始移除
+    const sorted = Array.from(pool.values()).sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+    const evictedCount = Math.max(0, sorted.length - CONFIG.POOL_SIZE);
+
+    return { success: true, items: sorted.slice(evictedCount), newCount, evictedCount };
+};
 
+/**
+ * 將文案池組成輸出結構。
+ *
+ * @param apiConfig - API 配置
+ * @param pool - 合併後的文案池
+ * @param result - 爬蟲執行結果（提供更新時間）
+ * @returns 文案輸出資料
+ */
+const buildCopywritingOutput = (
+    apiConfig: CopywritingApiConfig,
+    pool: CopywritingPoolResult,
+    result: ScraperResult<unknown>,
+): CopywritingOutput => ({
+    $schema: getSchemaUrl(copywritingOutputSchema),
+    type: apiConfig.name,
+    updated: result.updated,
+    updateTime: result.updateTime,
+    totalCount: pool.items.length,
+    targetCount: CONFIG.POOL_SIZE,
+    completionRate: `${((pool.items.length / CONFIG.POOL_SIZE) * 100).toFixed(1)}%`,
+    newCount: pool.newCount,
+    evictedCount: pool.evictedCount,
+    convertedToTraditional: isConverterAvailable(CHINESE_CONVERSION.profile),
+    copywritings: pool.items,
+});
+
+/**
+ * 計算成功類型本次新收集的文案總數。
+ *
+ * @param results - 各類型的處理結果
+ * @returns 文案總數
+ */
+const countNewTotal = (results: Record<string, CopywritingPoolResult>): number => {
+    let totalCount = 0;
     for (const result of Object.values(results)) {
         if (result.success) {
-            totalCount += result.count;
+            totalCount += result.newCount;
         }
     }
+    return totalCount;
+};
+
+// ============================================================================
+// 爬蟲定義
+// ============================================================================
+
+/**
+ * 文案爬蟲：抓取所有類型的文案並儲存為 JSON 檔案。
+ */
+export const copywritingScraper = defineScraper<
+    Record<string, CopywritingTypeResult>,
+    Record<string, CopywritingPoolResult>
+>({
+    name: 'copywriting',
+    description: '愛情、搞笑、騷話文案',
+    source: 'aa1.cn 文案 API',
+    cadence: '每 6 小時',
 
-    logger.info('統計結果:');
-    logger.info(`總計: ${totalCount}/${totalTarget} (${((totalCount / totalTarget) * 100).toFixed(0)}%)`);
-    logger.info(`耗時: ${((endTime - startTime) / 1000).toFixed(1)} 秒`);
+    setup: async () => {
+        await initializeChineseConverter(CHINESE_CONVERSION.profile);
+    },
+
+    fetch: async (context) => {
+        const results: Record<string, CopywritingTypeResult> = {};
+
+        for (const [key, apiConfig] of Object.entries(API_CONFIGS)) {
+            const existing = loadExistingPool(apiConfig);
 
-    // 顯示範例
-    if (totalCount > 0) {
-        logger.info('範例:');
-        for (const apiConfig of Object.values(API_CONFIGS)) {
             try {
-                const data = readJsonFile<CopywritingOutput>(apiConfig.filename);
-                if (data.copywritings.length > 0) {
-                    logger.info(`${apiConfig.name}: ${data.copywritings[0].content}`);
-                }
-            } catch {
-                // 忽略
+                const knownTexts = new Set(existing.map((item) => item.content));
+                const { texts, fetchedCount } = await collectUniqueCopywritings(apiConfig, knownTexts, context.logger);
+                results[key] = { success: true, count: fetchedCount, existing, texts };
+            } catch (error) {
+                context.logger.error(`${apiConfig.name} 失敗`, getErrorMessage(error));
+                context.errors.push(`${apiConfig.name}: ${getErrorMessage(error)}`);
+                results[key] = { success: false, count: 0, existing, texts: [] };
             }
         }
-    }
 
-    if (totalCount === 0) {
-        logger.error('所有文案抓取失敗');
-        process.exit(1);
-    }
+        return results;
+    },
 
-    logger.success('文案抓取完成！');
-};
+    transform: (results, context) => {
+        const addedAt = new Date(context.startTime).toISOString();
+        const pools: Record<string, CopywritingPoolResult> = {};
+
+        for (const [key, result] of Object.entries(results)) {
+            pools[key] = result.success
+                ? { ...mergeIntoPool(result.existing, result.texts, addedAt), fetchedCount: result.count }
+                : { success: false, items: result.existing, fetchedCount: 0, newCount: 0, evictedCount: 0 };
+        }
 
-main().catch((error) => {
-    logger.error('程式執行失敗', error);
-    process.exit(1);
+        return pools;
+    },
+
+    outputs: (result) =>
+        Object.entries(API_CONFIGS)
+            .filter(([key]) => result.data[key]?.success && result.data[key].fetchedCount > 0)
+            .map(([key, apiConfig]) => ({
+                filename: apiConfig.filename,
+                data: buildCopywritingOutput(apiConfig, result.data[key], result),
+                schema: copywritingOutputSchema,
+                qualityGate: QUALITY_GATE,
+                recordCount: result.data[key].items.length,
+            })),
+
+    report: (result, context) => {
+        context.logger.info('統計結果:');
+        for (const [key, apiConfig] of Object.entries(API_CONFIGS)) {
+            const pool = result.data[key];
+            if (pool?.success) {
+                context.logger.info(
+                    `${apiConfig.name}: 文案池 ${pool.items.length}/${CONFIG.POOL_SIZE}，新增 ${pool.newCount}，移除 ${pool.evictedCount}`,
+                );
+            }
+        }
+        context.logger.info(`本次新增: ${countNewTotal(result.data)}`);
+        context.logger.info(`耗時: ${(result.processingTimeMs / 1000).toFixed(1)} 秒`);
+    },
+
+    verify: (result) => {
+        const fetchedAny = Object.values(result.data).some((pool) => pool.success && pool.fetchedCount > 0);
+        return fetchedAny ? null : '所有文案抓取失敗';
+    },
 });
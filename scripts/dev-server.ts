@@ -0,0 +1,382 @@
+/**
+ * @fileoverview 本機開發伺服器
+ *
+ * 以與 GitHub Pages 相同的方式提供 data/ 目錄（Content-Type、ETag、Last-Modified、CORS），
+ * 讓前端不必連線即可使用磁碟上的資料開發。網址可省略或保留 `/json-gather/data` 前綴，
+ * 部分端點另外支援查詢參數篩選（見 {@link QUERY_FILTERS}），正式環境不提供這些參數。
+ *
+ * @example
+ * ```bash
+ * pnpm json-gather serve --port 4000
+ * curl 'http://localhost:4000/horoscope.json?sign=aries'
+ * curl -G 'http://localhost:4000/taipei-beef-noodles.json' --data-urlencode 'district=大安區' -d minRating=4.5
+ * curl 'http://localhost:4000/json-gather/data/tw-calendar/processed/2026.json?month=02&holidaysOnly=true'
+ * ```
+ */
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+
+import type {
+    DevServerOptions,
+    HoroscopeOutput,
+    PlacesOutput,
+    ProcessedHoliday,
+    QueryFilter,
+    QueryFilterResult,
+} from '../types';
+import { getErrorMessage, hashContent, logger } from '../utils';
+import { PLACES_CONFIGS } from './places-config';
+
+const log = logger.child('dev-server');
+
+/** GitHub Pages 上的路徑前綴 */
+const PAGES_PREFIX = '/json-gather/data';
+
+/** GitHub Pages 回應的快取時間（秒） */
+const CACHE_MAX_AGE = 600;
+
+/** 各副檔名的 Content-Type */
+const CONTENT_TYPES: Record<string, string> = {
+    '.json': 'application/json; charset=utf-8',
+    '.geojson': 'application/geo+json; charset=utf-8',
+    '.csv': 'text/csv; charset=utf-8',
+    '.kml': 'application/vnd.google-earth.kml+xml; charset=utf-8',
+    '.ics': 'text/calendar; charset=utf-8',
+    '.html': 'text/html; charset=utf-8',
+    '.txt': 'text/plain; charset=utf-8',
+    '.md': 'text/markdown; charset=utf-8',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml',
+};
+
+/** 未知副檔名的 Content-Type */
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream';
+
+// ============================================================================
+// 查詢參數篩選
+// ============================================================================
+
+/**
+ * 解析以逗號分隔的多個值。
+ *
+ * @param value - 查詢參數值
+ * @returns 去除空白後的值
+ */
+const parseList = (value: string): string[] =>
+    value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean);
+
+/**
+ * 解析布林查詢參數。
+ *
+ * @param value - 參數值
+ * @returns 布林值，格式錯誤時為 null
+ */
+const parseBoolean = (value: string): boolean | null => {
+    if (value === 'true' || value === '1') return true;
+    if (value === 'false' || value === '0') return false;
+    return null;
+};
+
+/**
+ * 星座運勢（當日與每日快照）：`sign` 可為英文代碼或中文名稱，以逗號分隔多個星座。
+ */
+const horoscopeFilter: QueryFilter = {
+    pattern: /^horoscope(\.json|\/history\/\d{4}-\d{2}-\d{2}\.json)$/,
+    params: ['sign'],
+    apply: (data, query) => {
+        const output = data as HoroscopeOutput;
+        const signs = parseList(query.get('sign') ?? '');
+        if (signs.length === 0) {
+            return { ok: false, error: 'sign 不可為空' };
+        }
+
+        const items = Object.entries(output.horoscopes);
+        const matches = (sign: string, [key, item]: (typeof items)[number]): boolean =>
+            key === sign.toLowerCase() || item.chineseName === sign;
+
+        const unknown = signs.filter((sign) => !items.some((entry) => matches(sign, entry)));
+        if (unknown.length > 0) {
+            const available = Object.keys(output.horoscopes).join(', ');
+            return { ok: false, error: `未知的星座: ${unknown.join(', ')}（可用 ${available}）` };
+        }
+
+        const selected = items.filter((entry) => signs.some((sign) => matches(sign, entry)));
+        const successCount = selected.filter(([, item]) => item.success).length;
+        return {
+            ok: true,
+            data: {
+                ...output,
+                totalConstellations: selected.length,
+                successCount,
+                failureCount: selected.length - successCount,
+                horoscopes: Object.fromEntries(selected),
+            },
+        };
+    },
+};
+
+/**
+ * 地點搜尋：`district` 以逗號分隔多個行政區，`minRating` 為最低評分（0-5）。
+ */
+const placesFilter: QueryFilter = {
+    pattern: new RegExp(`^(${PLACES_CONFIGS.map((config) => config.filename.replace(/\./g, '\\.')).join('|')})$`),
+    params: ['district', 'minRating'],
+    apply: (data, query) => {
+        const output = data as PlacesOutput;
+        const districts = query.has('district') ? parseList(query.get('district') ?? '') : null;
+        const minRating = query.has('minRating') ? Number(query.get('minRating')) : null;
+
+        if (districts !== null && districts.length === 0) {
+            return { ok: false, error: 'district 不可為空' };
+        }
+        if (minRating !== null && (Number.isNaN(minRating) || minRating < 0 || minRating > 5)) {
+            return { ok: false, error: `minRating 應為 0 到 5 的數字，實際為 ${query.get('minRating')}` };
+        }
+
+        const shops = output.shops.filter(
+            (shop) =>
+                (!districts || (shop.district !== undefined && districts.includes(shop.district))) &&
+                (minRating === null || (shop.rating ?? 0) >= minRating),
+        );
+        return { ok: true, data: { ...output, totalShops: shops.length, shops } };
+    },
+};
+
+/**
+ * 台灣行事曆（年度與單月）：`month` 為月份（1-12），`holidaysOnly` 只保留放假日。
+ */
+const calendarFilter: QueryFilter = {
+    pattern: /^tw-calendar\/(processed\/\d{4}|monthly\/\d{4}-\d{2})\.json$/,
+    params: ['month', 'holidaysOnly'],
+    apply: (data, query) => {
+        const days = data as ProcessedHoliday[];
+
+        const monthValue = query.get('month');
+        const month = monthValue === null ? null : monthValue.padStart(2, '0');
+        if (month !== null && !/^(0[1-9]|1[0-2])$/.test(month)) {
+            return { ok: false, error: `month 應為 1 到 12，實際為 ${monthValue}` };
+        }
+
+        const holidaysOnlyValue = query.get('holidaysOnly');
+        const holidaysOnly = holidaysOnlyValue === null ? false : parseBoolean(holidaysOnlyValue);
+        if (holidaysOnly === null) {
+            return { ok: false, error: `holidaysOnly 應為 true 或 false，實際為 ${holidaysOnlyValue}` };
+        }
+
+        return {
+            ok: true,
+            data: days.filter(
+                (day) => (month === null || day.date.slice(4, 6) === month) && (!holidaysOnly || day.isHoliday),
+            ),
+        };
+    },
+};
+
+/** 支援查詢參數的端點 */
+const QUERY_FILTERS: readonly QueryFilter[] = [horoscopeFilter, placesFilter, calendarFilter];
+
+/**
+ * 依網址的查詢參數篩選檔案內容。
+ *
+ * 沒有對應的篩選器或網址不含支援的參數時返回 null，直接回傳原檔
+ * （GitHub Pages 會忽略查詢參數，例如用來避開快取的 `?v=123`）。
+ *
+ * @param relativePath - 相對於資料目錄的路徑
+ * @param content - 檔案內容
+ * @param query - 查詢參數
+ * @returns 篩選結果，不需篩選時為 null
+ */
+const applyQueryFilter = (relativePath: string, content: Buffer, query: URLSearchParams): QueryFilterResult | null => {
+    const filter = QUERY_FILTERS.find((item) => item.pattern.test(relativePath));
+    if (!filter || !filter.params.some((param) => query.has(param))) {
+        return null;
+    }
+    return filter.apply(JSON.parse(content.toString('utf8')), query);
+};
+
+// ============================================================================
+// 請求處理
+// ============================================================================
+
+/**
+ * 將網址路徑轉換為資料目錄中的檔案路徑。
+ *
+ * @param root - 資料目錄的絕對路徑
+ * @param pathname - 網址路徑
+ * @returns 檔案路徑，超出資料目錄時為 null
+ */
+const resolveFilePath = (root: string, pathname: string): string | null => {
+    let decoded: string;
+    try {
+        decoded = decodeURIComponent(pathname);
+    } catch {
+        return null;
+    }
+
+    const withoutPrefix =
+        decoded === PAGES_PREFIX || decoded.startsWith(`${PAGES_PREFIX}/`)
+            ? decoded.slice(PAGES_PREFIX.length)
+            : decoded;
+    const filePath = path.join(root, withoutPrefix);
+    return filePath === root || filePath.startsWith(`${root}${path.sep}`) ? filePath : null;
+};
+
+/**
+ * 回傳純文字錯誤。
+ *
+ * @param response - 回應物件
+ * @param status - HTTP 狀態碼
+ * @param message - 錯誤訊息
+ */
+const sendText = (response: http.ServerResponse, status: number, message: string): void => {
+    response.writeHead(status, { 'Content-Type': CONTENT_TYPES['.txt'] });
+    response.end(message);
+};
+
+/**
+ * 判斷請求的快取是否仍有效。
+ *
+ * @param request - 請求物件
+ * @param etag - 回應的 ETag
+ * @param modified - 檔案修改時間
+ * @returns 可回傳 304 時為 true
+ */
+const isNotModified = (request: http.IncomingMessage, etag: string, modified: Date): boolean => {
+    const ifNoneMatch = request.headers['if-none-match'];
+    if (ifNoneMatch) {
+        return ifNoneMatch.split(',').some((tag) => tag.trim() === etag || tag.trim() === '*');
+    }
+
+    const ifModifiedSince = request.headers['if-modified-since'];
+    if (ifModifiedSince) {
+        const since = Date.parse(ifModifiedSince);
+        return !Number.isNaN(since) && Math.floor(modified.getTime() / 1000) * 1000 <= since;
+    }
+    return false;
+};
+
+/**
+ * 處理單一請求。
+ *
+ * @param root - 資料目錄的絕對路徑
+ * @param request - 請求物件
+ * @param response - 回應物件
+ */
+const handleRequest = (root: string, request: http.IncomingMessage, response: http.ServerResponse): void => {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+
+    if (request.method === 'OPTIONS') {
+        response.writeHead(204, {
+            'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+            'Access-Control-Allow-Headers': request.headers['access-control-request-headers'] ?? '*',
+            'Access-Control-Max-Age': String(CACHE_MAX_AGE),
+        });
+        response.end();
+        return;
+    }
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+        response.setHeader('Allow', 'GET, HEAD, OPTIONS');
+        sendText(response, 405, '405 Method Not Allowed');
+        return;
+    }
+
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    let filePath = resolveFilePath(root, url.pathname);
+    let stats = filePath ? fs.statSync(filePath, { throwIfNoEntry: false }) : undefined;
+
+    // 與 GitHub Pages 相同：目錄補上結尾斜線後提供 index.html
+    if (filePath && stats?.isDirectory()) {
+        if (!url.pathname.endsWith('/')) {
+            response.writeHead(301, { Location: `${url.pathname}/${url.search}` });
+            response.end();
+            return;
+        }
+        filePath = path.join(filePath, 'index.html');
+        stats = fs.statSync(filePath, { throwIfNoEntry: false });
+    }
+
+    if (!filePath || !stats?.isFile()) {
+        sendText(response, 404, '404 Not Found');
+        return;
+    }
+
+    const relativePath = path.relative(root, filePath).split(path.sep).join('/');
+    let body = fs.readFileSync(filePath);
+    let etag = `"${Math.floor(stats.mtimeMs / 1000).toString(16)}-${stats.size.toString(16)}"`;
+
+    const filtered = applyQueryFilter(relativePath, body, url.searchParams);
+    if (filtered && !filtered.ok) {
+        response.writeHead(400, { 'Content-Type': CONTENT_TYPES['.json'] });
+        response.end(JSON.stringify({ error: filtered.error }, null, 2));
+        return;
+    }
+    if (filtered) {
+        const content = JSON.stringify(filtered.data, null, 2);
+        body = Buffer.from(content, 'utf8');
+        etag = `"${hashContent(content, 16)}"`;
+    }
+
+    response.setHeader('ETag', etag);
+    response.setHeader('Last-Modified', stats.mtime.toUTCString());
+    response.setHeader('Cache-Control', `max-age=${CACHE_MAX_AGE}`);
+
+    if (isNotModified(request, etag, stats.mtime)) {
+        response.writeHead(304);
+        response.end();
+        return;
+    }
+
+    response.writeHead(200, {
+        'Content-Type': CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? DEFAULT_CONTENT_TYPE,
+        'Content-Length': body.length,
+    });
+    response.end(request.method === 'HEAD' ? undefined : body);
+};
+
+/**
+ * 啟動本機開發伺服器。
+ *
+ * @param options - 伺服器選項
+ * @returns 開始監聽後的伺服器
+ * @throws 若資料目錄不存在或連接埠無法使用則拋出錯誤
+ */
+export const startDevServer = async (options: DevServerOptions): Promise<http.Server> => {
+    const root = path.resolve(options.directory);
+    if (!fs.statSync(root, { throwIfNoEntry: false })?.isDirectory()) {
+        throw new Error(`找不到資料目錄: ${root}`);
+    }
+
+    const server = http.createServer((request, response) => {
+        response.on('finish', () => log.info(`${request.method} ${request.url} ${response.statusCode}`));
+        try {
+            handleRequest(root, request, response);
+        } catch (error) {
+            log.error(`${request.method} ${request.url} 處理失敗`, getErrorMessage(error));
+            if (!response.headersSent) {
+                sendText(response, 500, '500 Internal Server Error');
+            } else {
+                response.end();
+            }
+        }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(options.port, () => {
+            server.off('error', reject);
+            resolve();
+        });
+    });
+
+    log.success(`已啟動: http://localhost:${options.port}${PAGES_PREFIX}/（資料目錄 ${root}）`);
+    return server;
+};
@@ -3,32 +3,45 @@
  *
  * 從 suxun.site API 獲取當日所有 12 個星座的運勢資料，
  * 並自動將簡體中文轉換為繁體中文後儲存為 JSON 檔案。
+ * 另外在 data/horoscope/history/ 保存每日快照、日期索引與各星座最近 30 天的評分趨勢。
  *
  * @example
  * ```bash
  * pnpm run scrape:horoscope
+ * # 或
+ * pnpm json-gather run horoscope
  * ```
  */
 
-import axios from 'axios';
-
 import type {
+    ChineseConversionConfig,
     ConstellationKey,
     HoroscopeApiData,
+    HoroscopeHistoryIndex,
+    HoroscopeHistoryUpdate,
     HoroscopeItem,
     HoroscopeOutput,
+    HoroscopeScores,
+    HoroscopeTrend,
     HoroscopeApiResponse,
+    HttpResult,
     NormalizedApiResponse,
+    QualityGate,
+    ScraperPayload,
 } from '../types';
+import { horoscopeHistoryIndexSchema, horoscopeOutputSchema, horoscopeTrendSchema } from '../types/schemas';
 import {
+    createHttpClient,
+    defineScraper,
     delay,
-    logger,
-    writeJsonFile,
+    getTaiwanDateString,
+    tryReadJsonFile,
     initializeChineseConverter,
     isConverterAvailable,
     convertToTraditional,
     convertObjectToTraditional,
     getErrorMessage,
+    getSchemaUrl,
 } from '../utils';
 
 // ============================================================================
@@ -56,13 +69,48 @@ const API_CONFIG = {
     BASE_URL: 'http://api.suxun.site/api/constellation',
     TIMEOUT: 10000,
     MAX_RETRIES: 3,
-    RETRY_DELAY: 2000,
+    RETRY_BASE_DELAY: 2000,
     REQUEST_DELAY: 500,
 } as const;
 
+/** 共用的 HTTP 客戶端 */
+const httpClient = createHttpClient({
+    timeout: API_CONFIG.TIMEOUT,
+    maxRetries: API_CONFIG.MAX_RETRIES,
+    baseDelay: API_CONFIG.RETRY_BASE_DELAY,
+});
+
 /** 輸出檔案名稱 */
 const OUTPUT_FILENAME = 'horoscope.json';
 
+/** 品質門檻：成功的星座數低於此值時保留前一版檔案 */
+const QUALITY_GATE: QualityGate = { field: 'successCount', min: 9 };
+
+/** 歷史資料設定 */
+const HISTORY_CONFIG = {
+    /** 歷史資料目錄（相對於 data） */
+    DIRECTORY: 'horoscope/history',
+    /** 各星座趨勢保留的天數 */
+    TREND_DAYS: 30,
+} as const;
+
+/** 簡繁轉換：台灣正體字形，只轉換文字欄位，評分、日期與幸運數字維持原樣 */
+const CHINESE_CONVERSION: ChineseConversionConfig = {
+    profile: 'tw',
+    fields: [
+        'notice',
+        'yi',
+        'ji',
+        'all_text',
+        'love_text',
+        'work_text',
+        'money_text',
+        'health_text',
+        'lucky_color',
+        'lucky_star',
+    ],
+};
+
 // ============================================================================
 // 型別定義
 // ============================================================================
@@ -105,164 +153,271 @@ const parseHoroscopeApiResponse = (raw: HoroscopeApiResponse, prefer: 'today' |
 };
 
 /**
- * 取得台灣時區的當日日期字串。
+ * 向 API 請求單一星座指定時段的運勢，回應格式不符時會自動重試。
  *
- * @returns 格式為 YYYY-MM-DD 的日期字串
+ * @param constellationType - 星座英文名稱
+ * @param time - 要請求的時段
+ * @returns 請求結果
  */
-const getTaiwanDateString = (): string => {
-    return new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
+const requestHoroscope = (
+    constellationType: ConstellationKey,
+    time: 'today' | 'nextday',
+): Promise<HttpResult<HoroscopeApiResponse>> => {
+    return httpClient.get<HoroscopeApiResponse>(API_CONFIG.BASE_URL, {
+        params: { type: constellationType, time },
+        validate: (data) => {
+            const normalized = parseHoroscopeApiResponse(data, time);
+            if (normalized.ok && normalized.payload) {
+                return null;
+            }
+            return time === 'today' ? 'API 返回失敗狀態' : 'API nextday 請求失敗';
+        },
+    });
 };
 
 /**
  * 抓取單一星座的運勢資料。
  *
  * @param constellationType - 星座英文名稱
- * @param retryCount - 目前重試次數
  * @returns 星座運勢資料
  */
-const fetchHoroscopeByConstellation = async (
-    constellationType: ConstellationKey,
-    retryCount = 0,
-): Promise<HoroscopeItem> => {
+const fetchHoroscopeByConstellation = async (constellationType: ConstellationKey): Promise<HoroscopeItem> => {
     const chineseName = CONSTELLATIONS[constellationType];
+    const failure = (error: string): HoroscopeItem => ({
+        constellation: constellationType,
+        chineseName,
+        success: false,
+        error,
+        data: null,
+    });
+
+    const todayResult = await requestHoroscope(constellationType, 'today');
+    if (!todayResult.ok) {
+        return failure(todayResult.error.message);
+    }
 
-    try {
-        const response = await axios.get<HoroscopeApiResponse>(API_CONFIG.BASE_URL, {
-            params: { type: constellationType, time: 'today' },
-            timeout: API_CONFIG.TIMEOUT,
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                Accept: 'application/json',
-            },
-        });
-
-        const normalizedToday = parseHoroscopeApiResponse(response.data, 'today');
-
-        if (!normalizedToday.ok || !normalizedToday.payload) {
-            throw new Error(`API 返回失敗狀態`);
-        }
+    const normalizedToday = parseHoroscopeApiResponse(todayResult.data, 'today');
+    const todayDate = getTaiwanDateString();
+    let chosen: NormalizedApiResponse = normalizedToday;
 
-        const todayDate = getTaiwanDateString();
-        let chosenPayload = normalizedToday.payload;
-        let chosenMsg = normalizedToday.msg;
-        let chosenCode = normalizedToday.code;
-
-        // 若日期不符，嘗試取用 tomorrow 區塊
-        if (normalizedToday.date && normalizedToday.date !== todayDate) {
-            const normalizedNext = parseHoroscopeApiResponse(response.data, 'nextday');
-
-            if (normalizedNext.ok && normalizedNext.payload) {
-                chosenPayload = normalizedNext.payload;
-                chosenMsg = normalizedNext.msg;
-                chosenCode = normalizedNext.code;
-            } else {
-                const nextdayResponse = await axios.get<HoroscopeApiResponse>(API_CONFIG.BASE_URL, {
-                    params: { type: constellationType, time: 'nextday' },
-                    timeout: API_CONFIG.TIMEOUT,
-                    headers: {
-                        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                        Accept: 'application/json',
-                    },
-                });
-
-                const normalizedNextByCall = parseHoroscopeApiResponse(nextdayResponse.data, 'nextday');
-                if (!normalizedNextByCall.ok || !normalizedNextByCall.payload) {
-                    throw new Error(`API nextday 請求失敗`);
-                }
+    // 若日期不符，嘗試取用 tomorrow 區塊
+    if (normalizedToday.date && normalizedToday.date !== todayDate) {
+        const normalizedNext = parseHoroscopeApiResponse(todayResult.data, 'nextday');
 
-                chosenPayload = normalizedNextByCall.payload;
-                chosenMsg = normalizedNextByCall.msg;
-                chosenCode = normalizedNextByCall.code;
+        if (normalizedNext.ok && normalizedNext.payload) {
+            chosen = normalizedNext;
+        } else {
+            const nextdayResult = await requestHoroscope(constellationType, 'nextday');
+            if (!nextdayResult.ok) {
+                return failure(nextdayResult.error.message);
             }
+            chosen = parseHoroscopeApiResponse(nextdayResult.data, 'nextday');
         }
+    }
 
-        const convertedData = await convertObjectToTraditional(chosenPayload);
-        const convertedMsg = await convertToTraditional(chosenMsg);
+    try {
+        const convertedData = await convertObjectToTraditional(chosen.payload, CHINESE_CONVERSION);
+        const convertedMsg = await convertToTraditional(chosen.msg, CHINESE_CONVERSION.profile);
 
         return {
             constellation: constellationType,
             chineseName,
             success: true,
-            code: chosenCode,
+            code: chosen.code,
             msg: convertedMsg,
             data: convertedData,
         };
     } catch (error) {
-        const errorMessage = getErrorMessage(error);
+        return failure(getErrorMessage(error));
+    }
+};
+
+// ============================================================================
+// 歷史資料函數
+// ============================================================================
+
+/**
+ * 將百分比字串（例如 "66%"）轉換為數值。
+ *
+ * @param value - 評分字串
+ * @returns 評分數值，無法解析時返回 null
+ */
+const parseScore = (value: string | undefined): number | null => {
+    if (!value) {
+        return null;
+    }
+    const score = Number.parseFloat(value);
+    return Number.isFinite(score) ? score : null;
+};
+
+/**
+ * 取出單一星座的各項評分。
+ *
+ * @param data - 運勢資料
+ * @returns 各項評分
+ */
+const extractScores = (data: HoroscopeApiData): HoroscopeScores => ({
+    all: parseScore(data.all),
+    love: parseScore(data.love),
+    work: parseScore(data.work),
+    money: parseScore(data.money),
+    health: parseScore(data.health),
+});
 
-        if (retryCount < API_CONFIG.MAX_RETRIES) {
-            await delay(API_CONFIG.RETRY_DELAY);
-            return fetchHoroscopeByConstellation(constellationType, retryCount + 1);
+/**
+ * 依本次結果更新歷史索引與各星座趨勢。
+ *
+ * 讀取既有的索引與趨勢檔案後加入今日資料；同一天重複執行時會覆寫當日紀錄，
+ * 抓取失敗的星座則保留既有紀錄。
+ *
+ * @param results - 各星座運勢資料
+ * @param date - 快照日期（YYYY-MM-DD）
+ * @returns 要寫出的歷史資料
+ */
+const buildHistoryUpdate = (results: Record<string, HoroscopeItem>, date: string): HoroscopeHistoryUpdate => {
+    const previousIndex = tryReadJsonFile<HoroscopeHistoryIndex>(`${HISTORY_CONFIG.DIRECTORY}/index.json`);
+    const dates = Array.from(new Set([date, ...(previousIndex?.dates ?? [])])).sort((a, b) => b.localeCompare(a));
+
+    const trends: HoroscopeHistoryUpdate['trends'] = {};
+    for (const [constellation, chineseName] of Object.entries(CONSTELLATIONS)) {
+        const previousTrend = tryReadJsonFile<HoroscopeTrend>(`${HISTORY_CONFIG.DIRECTORY}/${constellation}.json`);
+        const item = results[constellation];
+        let days = previousTrend?.days ?? [];
+
+        if (item?.success && item.data) {
+            days = [...days.filter((entry) => entry.date !== date), { date, scores: extractScores(item.data) }];
         }
 
-        return {
-            constellation: constellationType,
+        trends[constellation] = {
+            constellation,
             chineseName,
-            success: false,
-            error: errorMessage,
-            data: null,
+            maxDays: HISTORY_CONFIG.TREND_DAYS,
+            days: days.sort((a, b) => a.date.localeCompare(b.date)).slice(-HISTORY_CONFIG.TREND_DAYS),
         };
     }
+
+    return { date, dates, trends };
 };
 
 // ============================================================================
-// 主程式
+// 爬蟲定義
 // ============================================================================
 
 /**
- * 主函數：抓取所有星座運勢並儲存為 JSON 檔案。
+ * 星座運勢爬蟲：抓取所有星座運勢並儲存為 JSON 檔案，
+ * 同時寫出當日快照、日期索引與各星座的評分趨勢。
  */
-const main = async (): Promise<void> => {
-    logger.info('開始抓取星座運勢...');
-
-    await initializeChineseConverter();
-
-    const startTime = Date.now();
-    const results: Record<string, HoroscopeItem> = {};
-    const errors: string[] = [];
-
-    for (const [englishName, chineseName] of Object.entries(CONSTELLATIONS)) {
-        try {
-            const data = await fetchHoroscopeByConstellation(englishName as ConstellationKey);
-            results[englishName] = data;
+export const horoscopeScraper = defineScraper<
+    Record<string, HoroscopeItem>,
+    ScraperPayload<HoroscopeOutput> & { history: HoroscopeHistoryUpdate }
+>({
+    name: 'horoscope',
+    description: '當日 12 星座運勢',
+    source: 'suxun.site 星座運勢 API',
+    cadence: '每 1 小時',
+
+    setup: async () => {
+        await initializeChineseConverter(CHINESE_CONVERSION.profile);
+    },
+
+    fetch: async (context) => {
+        const results: Record<string, HoroscopeItem> = {};
+
+        for (const [englishName, chineseName] of Object.entries(CONSTELLATIONS)) {
+            try {
+                const data = await fetchHoroscopeByConstellation(englishName as ConstellationKey);
+                results[englishName] = data;
+
+                if (!data.success) {
+                    context.errors.push(`${chineseName}: ${data.error}`);
+                }
 
-            if (!data.success) {
-                errors.push(`${chineseName}: ${data.error}`);
+                await delay(API_CONFIG.REQUEST_DELAY);
+            } catch (error) {
+                context.errors.push(`${chineseName}: ${getErrorMessage(error)}`);
             }
-
-            await delay(API_CONFIG.REQUEST_DELAY);
-        } catch (error) {
-            errors.push(`${chineseName}: ${getErrorMessage(error)}`);
         }
-    }
 
-    const endTime = Date.now();
-    const successCount = Object.values(results).filter((item) => item.success).length;
-
-    const outputData: HoroscopeOutput = {
-        updated: new Date().toISOString(),
-        updateTime: new Date().toLocaleString('zh-TW', { timeZone: 'Asia/Taipei' }),
-        totalConstellations: Object.keys(CONSTELLATIONS).length,
-        successCount,
-        failureCount: Object.keys(CONSTELLATIONS).length - successCount,
-        processingTimeMs: endTime - startTime,
-        convertedToTraditional: isConverterAvailable(),
-        errors,
-        horoscopes: results,
-    };
+        return results;
+    },
 
-    const filePath = writeJsonFile(OUTPUT_FILENAME, outputData);
+    transform: (results) => {
+        const successCount = Object.values(results).filter((item) => item.success).length;
 
-    logger.success(`完成: ${successCount}/${Object.keys(CONSTELLATIONS).length} 個星座`);
-    logger.info(`已保存至: ${filePath}`);
+        return {
+            totalConstellations: Object.keys(CONSTELLATIONS).length,
+            successCount,
+            failureCount: Object.keys(CONSTELLATIONS).length - successCount,
+            convertedToTraditional: isConverterAvailable(CHINESE_CONVERSION.profile),
+            horoscopes: results,
+            history: buildHistoryUpdate(results, getTaiwanDateString()),
+        };
+    },
+
+    outputs: (result) => {
+        const outputData: HoroscopeOutput = {
+            $schema: getSchemaUrl(horoscopeOutputSchema),
+            updated: result.updated,
+            updateTime: result.updateTime,
+            totalConstellations: result.data.totalConstellations,
+            successCount: result.data.successCount,
+            failureCount: result.data.failureCount,
+            processingTimeMs: result.processingTimeMs,
+            convertedToTraditional: result.data.convertedToTraditional,
+            errors: result.errors,
+            horoscopes: result.data.horoscopes,
+        };
 
-    if (successCount === 0) {
-        logger.error('所有星座抓取失敗');
-        process.exit(1);
-    }
-};
+        const { history } = result.data;
+        const index: HoroscopeHistoryIndex = {
+            updated: result.updated,
+            latest: history.dates[0] ?? null,
+            dates: history.dates,
+        };
 
-main().catch((error) => {
-    logger.error('程式執行失敗', error);
-    process.exit(1);
+        return [
+            {
+                filename: OUTPUT_FILENAME,
+                data: outputData,
+                schema: horoscopeOutputSchema,
+                qualityGate: QUALITY_GATE,
+                recordCount: outputData.successCount,
+            },
+            {
+                filename: `${HISTORY_CONFIG.DIRECTORY}/${history.date}.json`,
+                data: outputData,
+                schema: horoscopeOutputSchema,
+                qualityGate: QUALITY_GATE,
+                derivedFrom: OUTPUT_FILENAME,
+                // 每日快照已列在 index.json 中
+                manifest: false,
+            },
+            {
+                filename: `${HISTORY_CONFIG.DIRECTORY}/index.json`,
+                data: index,
+                schema: horoscopeHistoryIndexSchema,
+                derivedFrom: OUTPUT_FILENAME,
+                recordCount: index.dates.length,
+            },
+            ...Object.values(history.trends).map((trend) => ({
+                filename: `${HISTORY_CONFIG.DIRECTORY}/${trend.constellation}.json`,
+                data: {
+                    constellation: trend.constellation,
+                    chineseName: trend.chineseName,
+                    updated: result.updated,
+                    maxDays: trend.maxDays,
+                    days: trend.days,
+                },
+                schema: horoscopeTrendSchema,
+                derivedFrom: OUTPUT_FILENAME,
+                recordCount: trend.days.length,
+            })),
+        ];
+    },
+
+    report: (result, context) => {
+        context.logger.success(`完成: ${result.data.successCount}/${result.data.totalConstellations} 個星座`);
+    },
+
+    verify: (result) => (result.data.successCount === 0 ? '所有星座抓取失敗' : null),
 });
@@ -0,0 +1,254 @@
+/**
+ * @fileoverview 地點搜尋變更追蹤
+ *
+ * 以地點 ID 比對本次結果與前一版檔案，記錄新出現與消失的店家、評分與評論數的明顯變化。
+ * 變更紀錄附加在 `<檔名>/history.json`，最近 7 天新出現的店家另外輸出為 `<檔名>/new-this-week.json`。
+ *
+ * 單次消失可能只是搜尋結果的波動，因此消失的店家會持續追蹤：
+ * 連續在完整的搜尋中消失達門檻次數才列為疑似歇業，之後再出現則列為重新出現而非新店家。
+ */
+
+import type {
+    NewPlace,
+    PlaceMetricChange,
+    PlacesChangeUpdate,
+    PlacesChangelogEntry,
+    PlacesHarvestConfig,
+    PlaceShop,
+    PlacesHistory,
+    PlacesMissingShop,
+    PlacesOutput,
+    PlaceSummary,
+} from '../types';
+import { tryReadJsonFile } from '../utils';
+
+/** 變更追蹤設定 */
+const CHANGE_CONFIG = {
+    /** 歷史檔保留的紀錄筆數（每 5 天一次約一年半） */
+    MAX_ENTRIES: 100,
+    /** 新店家清單涵蓋的天數 */
+    NEW_DAYS: 7,
+    /** 連續消失幾次完整搜尋後列為疑似歇業 */
+    CLOSED_AFTER_RUNS: 2,
+    /** 連續消失幾次完整搜尋後不再追蹤 */
+    FORGET_AFTER_RUNS: 12,
+    /** 評分變化達此值才記錄 */
+    RATING_DELTA: 0.2,
+    /** 評論數變化須同時達到此數量與前一版的 REVIEW_COUNT_RATIO 比例才記錄 */
+    REVIEW_COUNT_DELTA: 50,
+    /** 評論數變化相對於前一版的最低比例 */
+    REVIEW_COUNT_RATIO: 0.2,
+} as const;
+
+/**
+ * 取得變更檔案的目錄（與 JSON 同名、不含副檔名）。
+ *
+ * @param config - 地點搜尋設定
+ * @returns 相對於 data 的目錄
+ */
+export const getChangesDirectory = (config: PlacesHarvestConfig): string => config.filename.replace(/\.json$/, '');
+
+/**
+ * 將店家轉換為變更紀錄中的摘要。
+ *
+ * @param shop - 店家資料
+ * @returns 店家摘要
+ */
+const toSummary = (shop: PlaceSummary): PlaceSummary => ({
+    id: shop.id,
+    name: shop.name,
+    district: shop.district,
+    rating: shop.rating,
+    userRatingCount: shop.userRatingCount,
+});
+
+/**
+ * 將 YYYY-MM-DD 日期加減天數。
+ *
+ * @param date - 日期（YYYY-MM-DD）
+ * @param days - 要加上的天數，可為負數
+ * @returns 日期（YYYY-MM-DD）
+ */
+const shiftDate = (date: string, days: number): string => {
+    const shifted = new Date(`${date}T00:00:00Z`);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return shifted.toISOString().slice(0, 10);
+};
+
+/**
+ * 找出同一間店家評分與評論數的明顯變化。
+ *
+ * @param before - 前一版資料
+ * @param after - 本次資料
+ * @returns 明顯變化列表
+ */
+const findMetricChanges = (before: PlaceShop, after: PlaceShop): PlaceMetricChange[] => {
+    const changes: PlaceMetricChange[] = [];
+
+    // 評分只有一位小數，先四捨五入避免浮點數誤差
+    if (
+        before.rating !== undefined &&
+        after.rating !== undefined &&
+        Number(Math.abs(after.rating - before.rating).toFixed(2)) >= CHANGE_CONFIG.RATING_DELTA
+    ) {
+        changes.push({ id: after.id, name: after.name, field: 'rating', before: before.rating, after: after.rating });
+    }
+
+    if (before.userRatingCount !== undefined && after.userRatingCount !== undefined) {
+        const delta = Math.abs(after.userRatingCount - before.userRatingCount);
+        if (
+            delta >= CHANGE_CONFIG.REVIEW_COUNT_DELTA &&
+            delta >= before.userRatingCount * CHANGE_CONFIG.REVIEW_COUNT_RATIO
+        ) {
+            changes.push({
+                id: after.id,
+                name: after.name,
+                field: 'userRatingCount',
+                before: before.userRatingCount,
+                after: after.userRatingCount,
+            });
+        }
+    }
+
+    return changes;
+};
+
+/**
+ * 更新消失中的店家。
+ *
+ * 完整的搜尋才累計消失次數；達到門檻的店家加入本次的疑似歇業列表，超過追蹤上限的店家不再保留。
+ *
+ * @param entry - 本次的變更紀錄（會加入疑似歇業的店家）
+ * @param previousMissing - 前一版的消失中店家
+ * @param currentIds - 本次出現的店家 ID
+ * @returns 更新後的消失中店家
+ */
+const updateMissingShops = (
+    entry: PlacesChangelogEntry,
+    previousMissing: PlacesMissingShop[],
+    currentIds: Set<string>,
+): PlacesMissingShop[] => {
+    const increment = entry.complete ? 1 : 0;
+    const missing: PlacesMissingShop[] = [];
+
+    for (const item of previousMissing) {
+        if (currentIds.has(item.shop.id)) continue;
+
+        const missedRuns = item.missedRuns + increment;
+        if (missedRuns >= CHANGE_CONFIG.FORGET_AFTER_RUNS) continue;
+        if (increment > 0 && missedRuns === CHANGE_CONFIG.CLOSED_AFTER_RUNS) {
+            entry.suspectedClosed.push(item.shop);
+        }
+        missing.push({ ...item, missedRuns });
+    }
+
+    const tracked = new Set(missing.map((item) => item.shop.id));
+    for (const shop of entry.removed) {
+        if (!tracked.has(shop.id)) {
+            missing.push({ shop, missingSince: entry.date, missedRuns: increment });
+        }
+    }
+
+    return missing;
+};
+
+/**
+ * 從近期的變更紀錄整理出新店家清單。
+ *
+ * @param entries - 變更紀錄（由舊到新）
+ * @param shops - 本次的店家（已再度消失的新店家不列入，評分等資料以本次為準）
+ * @param since - 起算日期（YYYY-MM-DD）
+ * @returns 新店家（由新到舊）
+ */
+const collectNewPlaces = (entries: PlacesChangelogEntry[], shops: PlaceShop[], since: string): NewPlace[] => {
+    const currentById = new Map(shops.map((shop) => [shop.id, shop]));
+    const newPlaces = new Map<string, NewPlace>();
+
+    for (const entry of entries) {
+        if (entry.date < since) continue;
+        for (const { id } of entry.added) {
+            const current = currentById.get(id);
+            if (current && !newPlaces.has(id)) {
+                newPlaces.set(id, { ...toSummary(current), firstSeen: entry.date });
+            }
+        }
+    }
+
+    return [...newPlaces.values()].sort((a, b) => b.firstSeen.localeCompare(a.firstSeen));
+};
+
+/**
+ * 比對本次結果與前一版檔案，產生要寫出的變更資料。
+ *
+ * 沒有前一版檔案時（第一次執行）只建立基準，不把所有店家列為新店家。
+ *
+ * @param config - 地點搜尋設定
+ * @param shops - 本次的店家
+ * @param complete - 本次搜尋是否完整
+ * @param date - 執行日期（YYYY-MM-DD）
+ * @param dataDirectory - 前一版檔案所在的目錄，預設為 'data'
+ * @returns 本次的變更紀錄、更新後的歷史與本週新店家清單
+ */
+export const buildPlacesChanges = (
+    config: PlacesHarvestConfig,
+    shops: PlaceShop[],
+    complete: boolean,
+    date: string,
+    dataDirectory?: string,
+): PlacesChangeUpdate => {
+    const directory = getChangesDirectory(config);
+    const previous = tryReadJsonFile<PlacesOutput>(config.filename, dataDirectory);
+    const previousHistory = tryReadJsonFile<PlacesHistory>(`${directory}/history.json`, dataDirectory);
+    const previousMissing = previousHistory?.missing ?? [];
+
+    const entry: PlacesChangelogEntry = {
+        date,
+        previousUpdated: previous?.updated ?? null,
+        complete,
+        totalShops: shops.length,
+        added: [],
+        removed: [],
+        reappeared: [],
+        suspectedClosed: [],
+        metricChanges: [],
+    };
+
+    if (previous) {
+        const previousById = new Map(previous.shops.map((shop) => [shop.id, shop]));
+        const missingIds = new Set(previousMissing.map((item) => item.shop.id));
+        const currentIds = new Set(shops.map((shop) => shop.id));
+
+        for (const shop of shops) {
+            const before = previousById.get(shop.id);
+            if (before) {
+                entry.metricChanges.push(...findMetricChanges(before, shop));
+            } else if (missingIds.has(shop.id)) {
+                entry.reappeared.push(toSummary(shop));
+            } else {
+                entry.added.push(toSummary(shop));
+            }
+        }
+        entry.removed = previous.shops.filter((shop) => !currentIds.has(shop.id)).map(toSummary);
+    }
+
+    const missing = updateMissingShops(entry, previousMissing, new Set(shops.map((shop) => shop.id)));
+    const entries = [...(previousHistory?.entries ?? []), entry].slice(-CHANGE_CONFIG.MAX_ENTRIES);
+    const since = shiftDate(date, -(CHANGE_CONFIG.NEW_DAYS - 1));
+
+    return {
+        entry,
+        history: {
+            keyword: config.keyword,
+            region: config.region.name,
+            maxEntries: CHANGE_CONFIG.MAX_ENTRIES,
+            entries,
+            missing,
+        },
+        newThisWeek: {
+            keyword: config.keyword,
+            region: config.region.name,
+            since,
+            shops: collectNewPlaces(entries, shops, since),
+        },
+    };
+};
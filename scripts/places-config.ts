@@ -0,0 +1,233 @@
+/**
+ * @fileoverview 地點搜尋設定
+ *
+ * 每個設定對應一個爬蟲與一個輸出檔案。新增城市或料理時只需在此新增設定，
+ * 網格搜尋、去重與行政區判斷都由 `./places` 共用。
+ *
+ * `gridSizeKm` 為初始網格大小，結果飽和的網格會自動細分；
+ * 範圍較大、郊區較多的城市使用較大的初始網格，以減少空白網格的查詢次數。
+ *
+ * 所有城市共用全國的鄉鎮市區界線檔，依 `COUNTYNAME` 區分縣市。
+ */
+
+import type { PlacesHarvestConfig, PlacesRegion } from '../types';
+
+// ============================================================================
+// 搜尋區域
+// ============================================================================
+
+/** 行政區界檔案（`data/boundaries/` 下，由 taiwan-atlas 的內政部鄉鎮市區界線轉換的 GeoJSON） */
+const BOUNDARY_FILE = 'tw-districts.geojson';
+
+/** 台北市 */
+const TAIPEI: PlacesRegion = {
+    name: '台北市',
+    cityNames: ['台北市', '臺北市'],
+    bounds: {
+        northwest: { lat: 25.15, lng: 121.435 },
+        southeast: { lat: 24.95, lng: 121.65 },
+    },
+    districts: [
+        '中正區',
+        '大同區',
+        '中山區',
+        '松山區',
+        '大安區',
+        '萬華區',
+        '信義區',
+        '士林區',
+        '北投區',
+        '內湖區',
+        '南港區',
+        '文山區',
+    ],
+    boundaryFile: BOUNDARY_FILE,
+};
+
+/** 新北市 */
+const NEW_TAIPEI: PlacesRegion = {
+    name: '新北市',
+    cityNames: ['新北市'],
+    bounds: {
+        northwest: { lat: 25.3, lng: 121.28 },
+        southeast: { lat: 24.67, lng: 122.01 },
+    },
+    districts: [
+        '板橋區',
+        '三重區',
+        '中和區',
+        '永和區',
+        '新莊區',
+        '新店區',
+        '土城區',
+        '蘆洲區',
+        '樹林區',
+        '汐止區',
+        '鶯歌區',
+        '三峽區',
+        '淡水區',
+        '瑞芳區',
+        '五股區',
+        '泰山區',
+        '林口區',
+        '深坑區',
+        '石碇區',
+        '坪林區',
+        '三芝區',
+        '石門區',
+        '八里區',
+        '平溪區',
+        '雙溪區',
+        '貢寮區',
+        '金山區',
+        '萬里區',
+        '烏來區',
+    ],
+    boundaryFile: BOUNDARY_FILE,
+};
+
+/** 台中市（範圍只涵蓋平地，不含和平區山區） */
+const TAICHUNG: PlacesRegion = {
+    name: '台中市',
+    cityNames: ['台中市', '臺中市'],
+    bounds: {
+        northwest: { lat: 24.4, lng: 120.45 },
+        southeast: { lat: 24.0, lng: 120.95 },
+    },
+    districts: [
+        '中區',
+        '東區',
+        '南區',
+        '西區',
+        '北區',
+        '西屯區',
+        '南屯區',
+        '北屯區',
+        '豐原區',
+        '東勢區',
+        '大甲區',
+        '清水區',
+        '沙鹿區',
+        '梧棲區',
+        '后里區',
+        '神岡區',
+        '潭子區',
+        '大雅區',
+        '新社區',
+        '石岡區',
+        '外埔區',
+        '大安區',
+        '烏日區',
+        '大肚區',
+        '龍井區',
+        '霧峰區',
+        '太平區',
+        '大里區',
+        '和平區',
+    ],
+    boundaryFile: BOUNDARY_FILE,
+};
+
+/** 高雄市（範圍只涵蓋平地，不含六龜、桃源等山區） */
+const KAOHSIUNG: PlacesRegion = {
+    name: '高雄市',
+    cityNames: ['高雄市'],
+    bounds: {
+        northwest: { lat: 22.95, lng: 120.15 },
+        southeast: { lat: 22.45, lng: 120.5 },
+    },
+    districts: [
+        '楠梓區',
+        '左營區',
+        '鼓山區',
+        '三民區',
+        '鹽埕區',
+        '前金區',
+        '新興區',
+        '苓雅區',
+        '前鎮區',
+        '旗津區',
+        '小港區',
+        '鳳山區',
+        '大寮區',
+        '鳥松區',
+        '林園區',
+        '仁武區',
+        '大樹區',
+        '大社區',
+        '岡山區',
+        '路竹區',
+        '橋頭區',
+        '梓官區',
+        '彌陀區',
+        '永安區',
+        '燕巢區',
+        '田寮區',
+        '阿蓮區',
+        '茄萣區',
+        '湖內區',
+        '旗山區',
+        '美濃區',
+        '內門區',
+        '杉林區',
+        '甲仙區',
+        '六龜區',
+        '茂林區',
+        '桃源區',
+        '那瑪夏區',
+    ],
+    boundaryFile: BOUNDARY_FILE,
+};
+
+// ============================================================================
+// 搜尋設定
+// ============================================================================
+
+/** 所有地點搜尋設定 */
+export const PLACES_CONFIGS: readonly PlacesHarvestConfig[] = [
+    {
+        name: 'taipei-beef-noodles',
+        description: 'Google Maps 台北市牛肉麵店',
+        keyword: '牛肉麵',
+        region: TAIPEI,
+        filename: 'taipei-beef-noodles.json',
+    },
+    {
+        name: 'taipei-braised-pork-rice',
+        description: 'Google Maps 台北市滷肉飯店',
+        keyword: '滷肉飯',
+        region: TAIPEI,
+        filename: 'taipei-braised-pork-rice.json',
+    },
+    {
+        name: 'taipei-xiaolongbao',
+        description: 'Google Maps 台北市小籠包店',
+        keyword: '小籠包',
+        region: TAIPEI,
+        filename: 'taipei-xiaolongbao.json',
+    },
+    {
+        name: 'new-taipei-beef-noodles',
+        description: 'Google Maps 新北市牛肉麵店',
+        keyword: '牛肉麵',
+        region: NEW_TAIPEI,
+        filename: 'new-taipei-beef-noodles.json',
+        gridSizeKm: 5,
+    },
+    {
+        name: 'taichung-beef-noodles',
+        description: 'Google Maps 台中市牛肉麵店',
+        keyword: '牛肉麵',
+        region: TAICHUNG,
+        filename: 'taichung-beef-noodles.json',
+        gridSizeKm: 4,
+    },
+    {
+        name: 'kaohsiung-beef-noodles',
+        description: 'Google Maps 高雄市牛肉麵店',
+        keyword: '牛肉麵',
+        region: KAOHSIUNG,
+        filename: 'kaohsiung-beef-noodles.json',
+        gridSizeKm: 4,
+    },
+];
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview 地點搜尋網格
+ *
+ * 先將搜尋範圍切成固定大小的初始網格；某格的結果數達到 API 上限時，再以四分樹的方式切成四個子格重新搜尋，
+ * 直到結果不再飽和或網格小於最小邊長為止。
+ */
+
+import type { Coordinates, GridCell } from '../types';
+
+/** 每一緯度的距離（公里） */
+const KM_PER_DEGREE = 111;
+
+/**
+ * 將搜尋範圍切成初始網格。
+ *
+ * @param northwest - 西北角座標
+ * @param southeast - 東南角座標
+ * @param gridSizeKm - 網格大小（公里）
+ * @returns 初始網格，邊緣的網格會裁切到範圍內
+ */
+export const calculateInitialCells = (
+    northwest: Coordinates,
+    southeast: Coordinates,
+    gridSizeKm: number,
+): GridCell[] => {
+    const latStep = gridSizeKm / KM_PER_DEGREE;
+    const avgLat = (northwest.lat + southeast.lat) / 2;
+    const lngStep = gridSizeKm / (KM_PER_DEGREE * Math.cos((avgLat * Math.PI) / 180));
+
+    const cells: GridCell[] = [];
+
+    for (let lat = northwest.lat; lat > southeast.lat; lat -= latStep) {
+        for (let lng = northwest.lng; lng < southeast.lng; lng += lngStep) {
+            cells.push({
+                northwest: { lat, lng },
+                southeast: { lat: Math.max(lat - latStep, southeast.lat), lng: Math.min(lng + lngStep, southeast.lng) },
+                depth: 0,
+            });
+        }
+    }
+
+    return cells;
+};
+
+/**
+ * 計算網格的邊長（取南北方向，公里）。
+ *
+ * @param cell - 網格
+ * @returns 邊長（公里）
+ */
+export const getCellSizeKm = (cell: GridCell): number => {
+    return (cell.northwest.lat - cell.southeast.lat) * KM_PER_DEGREE;
+};
+
+/**
+ * 將網格切成四個子格。
+ *
+ * @param cell - 網格
+ * @returns 西北、東北、西南、東南四個子格
+ */
+export const subdivideCell = (cell: GridCell): GridCell[] => {
+    const { northwest, southeast } = cell;
+    const mid = { lat: (northwest.lat + southeast.lat) / 2, lng: (northwest.lng + southeast.lng) / 2 };
+    const depth = cell.depth + 1;
+
+    return [
+        { northwest, southeast: mid, depth },
+        { northwest: { lat: northwest.lat, lng: mid.lng }, southeast: { lat: mid.lat, lng: southeast.lng }, depth },
+        { northwest: { lat: mid.lat, lng: northwest.lng }, southeast: { lat: southeast.lat, lng: mid.lng }, depth },
+        { northwest: mid, southeast, depth },
+    ];
+};
+
+/**
+ * 判斷飽和的網格是否還能再細分。
+ *
+ * @param cell - 結果數達到上限的網格
+ * @param minCellSizeKm - 子格的最小邊長（公里）
+ * @returns 細分後的子格不小於最小邊長時返回 true
+ */
+export const canSubdivideCell = (cell: GridCell, minCellSizeKm: number): boolean => {
+    return getCellSizeKm(cell) / 2 >= minCellSizeKm;
+};
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview 地點排名
+ *
+ * 以貝氏平均計算考慮評論數的分數，避免只有幾則評論的 5.0 分店家排在數千則評論的 4.8 分店家前面：
+ *
+ *     score = (v × R + m × C) / (v + m)
+ *
+ * R 為店家評分、v 為評論數、C 為全市平均評分、m 為先驗權重（`PlacesRankingConfig.priorWeight`）。
+ * 評論數越多，分數越接近店家本身的評分；評論越少則越接近全市平均。
+ */
+
+import type {
+    PlacesHarvestConfig,
+    PlaceShop,
+    PlacesRankingConfig,
+    PlacesRankingSummary,
+    PlacesTopList,
+    RankedPlace,
+} from '../types';
+
+/** 預設排名設定 */
+const DEFAULT_RANKING: PlacesRankingConfig = {
+    priorWeight: 100,
+    topCount: 20,
+    districtTopCount: 5,
+};
+
+/**
+ * 取得套用預設值後的排名設定。
+ *
+ * @param config - 地點搜尋設定
+ * @returns 排名設定
+ */
+const resolveRankingConfig = (config: PlacesHarvestConfig): PlacesRankingConfig => ({
+    ...DEFAULT_RANKING,
+    ...config.ranking,
+});
+
+/**
+ * 四捨五入到小數點後 4 位。
+ *
+ * @param value - 數值
+ * @returns 四捨五入後的數值
+ */
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * 比較兩間店家的排名：分數高者在前，同分時評論數多者在前，沒有分數的店家排在最後。
+ *
+ * @param a - 店家 A
+ * @param b - 店家 B
+ * @returns 排序用的比較值
+ */
+const compareShops = (a: PlaceShop, b: PlaceShop): number => {
+    return (
+        (b.score ?? -1) - (a.score ?? -1) ||
+        (b.userRatingCount ?? 0) - (a.userRatingCount ?? 0) ||
+        a.id.localeCompare(b.id)
+    );
+};
+
+/**
+ * 計算每間店家的分數，並依分數由高到低排序。
+ *
+ * @param config - 地點搜尋設定
+ * @param shops - 店家列表
+ * @returns 加上分數並排序後的店家與排名摘要
+ */
+export const rankPlaces = (
+    config: PlacesHarvestConfig,
+    shops: PlaceShop[],
+): { shops: PlaceShop[]; summary: PlacesRankingSummary } => {
+    const { priorWeight } = resolveRankingConfig(config);
+    const ratings = shops.map((shop) => shop.rating).filter((rating): rating is number => rating !== undefined);
+    const meanRating = ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null;
+
+    const scored = shops.map((shop): PlaceShop => {
+        if (shop.rating === undefined || meanRating === null) {
+            return shop;
+        }
+        const reviews = shop.userRatingCount ?? 0;
+        const score = (reviews * shop.rating + priorWeight * meanRating) / (reviews + priorWeight);
+        return { ...shop, score: round(score) };
+    });
+
+    return {
+        shops: scored.sort(compareShops),
+        summary: {
+            meanRating: meanRating === null ? null : round(meanRating),
+            priorWeight,
+            rankedShops: ratings.length,
+        },
+    };
+};
+
+/**
+ * 取出有分數的前幾名店家。
+ *
+ * @param shops - 已排序的店家
+ * @param count - 名額
+ * @returns 排行榜
+ */
+const takeTop = (shops: PlaceShop[], count: number): RankedPlace[] => {
+    return shops
+        .filter((shop): shop is PlaceShop & { rating: number; score: number } => shop.score !== undefined)
+        .slice(0, count)
+        .map((shop, index) => ({
+            rank: index + 1,
+            id: shop.id,
+            name: shop.name,
+            district: shop.district,
+            rating: shop.rating,
+            userRatingCount: shop.userRatingCount ?? 0,
+            score: shop.score,
+        }));
+};
+
+/**
+ * 建立全市與各行政區的排行榜。
+ *
+ * @param config - 地點搜尋設定
+ * @param shops - 已由 {@link rankPlaces} 排序的店家
+ * @param summary - 排名摘要
+ * @returns 不含更新時間的排行榜
+ */
+export const buildTopList = (
+    config: PlacesHarvestConfig,
+    shops: PlaceShop[],
+    summary: PlacesRankingSummary,
+): Omit<PlacesTopList, 'updated'> => {
+    const { topCount, districtTopCount } = resolveRankingConfig(config);
+
+    const districts: Record<string, RankedPlace[]> = {};
+    for (const district of config.region.districts) {
+        const ranked = takeTop(
+            shops.filter((shop) => shop.district === district),
+            districtTopCount,
+        );
+        if (ranked.length > 0) {
+            districts[district] = ranked;
+        }
+    }
+
+    return {
+        keyword: config.keyword,
+        region: config.region.name,
+        ranking: summary,
+        top: takeTop(shops, topCount),
+        districts,
+    };
+};
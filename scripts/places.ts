@@ -0,0 +1,833 @@
+/**
+ * @fileoverview 地點搜尋爬蟲
+ *
+ * 使用 Google Places API 搜尋指定城市範圍內的店家，以自適應四分樹網格確保完整覆蓋：
+ * 結果達到上限的網格會再切成四格重新搜尋，結果稀疏的網格則不再細分；可選擇依 nextPageToken 翻頁。
+ * 每次執行有查詢次數與預估費用上限，用完時停止搜尋並保存已取得的結果。
+ * 行政區以座標落在 `data/boundaries/` 的行政區界內判斷，座標不在任何界線內時改以地址判斷，
+ * 兩者不一致的店家會列在輸出中；本機缺少界線檔時只以地址判斷，CI 中則視為錯誤。搜尋的關鍵字、城市與輸出檔案由 `./places-config` 設定，
+ * 每個設定產生一個爬蟲，除了 JSON 之外也從同一份店家資料輸出 GeoJSON、CSV 與 KML，
+ * 方便直接匯入 Leaflet、QGIS 與 Google My Maps。店家依 `./places-ranking` 的分數排序並產生排行榜，
+ * 與前一版的差異由 `./places-changes` 記錄。
+ *
+ * @example
+ * ```bash
+ * GOOGLE_MAPS_API_KEY=your_api_key pnpm run scrape:taipei-beef-noodles
+ * # 或
+ * GOOGLE_MAPS_API_KEY=your_api_key pnpm json-gather run taichung-beef-noodles
+ * ```
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import type {
+    BoundaryFeatureCollection,
+    DistrictAssignmentSummary,
+    DistrictBoundary,
+    GridCell,
+    Logger,
+    CsvValue,
+    PlaceFeatureCollection,
+    PlaceResult,
+    PlacesBudget,
+    PlacesBudgetUsage,
+    PlacesChangeUpdate,
+    PlacesHarvestConfig,
+    PlacesOutput,
+    PlacesRegion,
+    PlacesSearchResponse,
+    PlacesSearchResult,
+    PlacesSearchStats,
+    PlaceShop,
+    QualityGate,
+    Scraper,
+    ScraperPayload,
+} from '../types';
+import {
+    kmlSchema,
+    placeFeatureCollectionSchema,
+    placesCsvSchema,
+    placesHistorySchema,
+    placesNewThisWeekSchema,
+    placesOutputSchema,
+    placesTopListSchema,
+} from '../types/schemas';
+import {
+    buildKml,
+    createHttpClient,
+    defineScraper,
+    findDistrictByPoint,
+    formatCsv,
+    getErrorMessage,
+    getSchemaUrl,
+    getTaiwanDateString,
+    isReplayMode,
+    parseDistrictBoundaries,
+    tryReadJsonFile,
+} from '../utils';
+import { buildPlacesChanges, getChangesDirectory } from './places-changes';
+import { PLACES_CONFIGS } from './places-config';
+import { calculateInitialCells, canSubdivideCell, subdivideCell } from './places-grid';
+import { buildTopList, rankPlaces } from './places-ranking';
+
+// ============================================================================
+// 常數定義
+// ============================================================================
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+/** 行政區界 GeoJSON 目錄 */
+const BOUNDARY_DIR = path.join(__dirname, '../data/boundaries');
+
+/** Google Maps API Key（回放模式下不需要） */
+const GOOGLE_MAPS_API_KEY = process.env.GOOGLE_MAPS_API_KEY || '';
+
+/**
+ * 檢查是否可以呼叫 Places API。
+ *
+ * @returns 已設定 API Key 或處於回放模式時返回 true
+ */
+const canQueryPlaces = (): boolean => Boolean(GOOGLE_MAPS_API_KEY) || isReplayMode();
+
+/** 搜尋配置（GRID_SIZE_KM、MAX_PAGES_PER_CELL 為設定未指定時的預設值） */
+const SEARCH_CONFIG = {
+    GRID_SIZE_KM: 2.4,
+    MIN_CELL_SIZE_KM: 0.3,
+    MAX_RESULTS_PER_PAGE: 20,
+    MAX_PAGES_PER_CELL: 1,
+    MAX_RETRIES: 3,
+} as const;
+
+/** 預設查詢預算（Text Search 含評分欄位約每千次 35 美元） */
+const DEFAULT_BUDGET: PlacesBudget = {
+    maxQueries: 2000,
+    maxCostUsd: 50,
+    costPerQueryUsd: 0.035,
+};
+
+/** 同一次執行中所有地點搜尋共用的預算上限，避免一次執行多個設定時費用倍增 */
+const RUN_BUDGET: Pick<PlacesBudget, 'maxQueries' | 'maxCostUsd'> = {
+    maxQueries: DEFAULT_BUDGET.maxQueries,
+    maxCostUsd: DEFAULT_BUDGET.maxCostUsd,
+};
+
+/** 本次執行所有地點搜尋累計的用量 */
+const runUsage = { queriesUsed: 0, estimatedCostUsd: 0 };
+
+/** 共用的 HTTP 客戶端 */
+const httpClient = createHttpClient({ timeout: 15000, maxRetries: SEARCH_CONFIG.MAX_RETRIES });
+
+/** 品質門檻：店家數少於前一版的 80% 時保留前一版檔案 */
+const QUALITY_GATE: QualityGate = { field: 'totalShops', minRatioOfPrevious: 0.8 };
+
+/** CSV 欄位順序 */
+const CSV_COLUMNS = [
+    'id',
+    'name',
+    'rating',
+    'userRatingCount',
+    'score',
+    'district',
+    'formattedAddress',
+    'latitude',
+    'longitude',
+] as const;
+
+// ============================================================================
+// Google Places API 函數
+// ============================================================================
+
+/**
+ * 使用 Google Places Text Search API 搜尋網格內的一頁地點。
+ *
+ * 以 locationRestriction 限制結果只落在網格內，結果數達到上限時才能確定該格需要細分。
+ *
+ * 每次 HTTP 嘗試都會計費，因此重試也會記錄到預算用量中。
+ *
+ * @param keyword - 搜尋關鍵字
+ * @param cell - 搜尋網格
+ * @param usage - 預算使用紀錄（會被更新）
+ * @param pageToken - 上一頁回傳的 nextPageToken，查詢第一頁時省略
+ * @returns 該頁的搜尋回應
+ */
+const searchPlacesByText = async (
+    keyword: string,
+    cell: GridCell,
+    usage: PlacesBudgetUsage,
+    pageToken?: string,
+): Promise<PlacesSearchResponse> => {
+    if (!canQueryPlaces()) {
+        throw new Error('未設定 GOOGLE_MAPS_API_KEY');
+    }
+
+    const url = 'https://places.googleapis.com/v1/places:searchText';
+
+    const fieldMask = [
+        'places.id',
+        'places.displayName',
+        'places.rating',
+        'places.userRatingCount',
+        'places.formattedAddress',
+        'places.location',
+        'nextPageToken',
+    ].join(',');
+
+    const result = await httpClient.post<PlacesSearchResponse>(url, {
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Goog-Api-Key': GOOGLE_MAPS_API_KEY,
+            'X-Goog-FieldMask': fieldMask,
+        },
+        body: {
+            textQuery: keyword,
+            locationRestriction: {
+                rectangle: {
+                    low: { latitude: cell.southeast.lat, longitude: cell.northwest.lng },
+                    high: { latitude: cell.northwest.lat, longitude: cell.southeast.lng },
+                },
+            },
+            pageSize: SEARCH_CONFIG.MAX_RESULTS_PER_PAGE,
+            pageToken,
+            languageCode: 'zh-TW',
+        },
+        onAttempt: () => recordQuery(usage),
+    });
+
+    if (!result.ok) {
+        throw new Error(`Places API 查詢失敗: ${result.error.message}`);
+    }
+
+    return { places: result.data.places ?? [], nextPageToken: result.data.nextPageToken };
+};
+
+// ============================================================================
+// 查詢預算函數
+// ============================================================================
+
+/**
+ * 依設定建立預算使用紀錄。
+ *
+ * @param budget - 設定的預算，未指定的項目使用預設值
+ * @returns 尚未使用的預算紀錄
+ */
+const createBudgetUsage = (budget: Partial<PlacesBudget> = {}): PlacesBudgetUsage => ({
+    ...DEFAULT_BUDGET,
+    ...budget,
+    queriesUsed: 0,
+    estimatedCostUsd: 0,
+    exhausted: false,
+    skippedCells: 0,
+});
+
+/**
+ * 計算查詢次數對應的預估費用（四捨五入到小數點後 4 位，避免浮點數誤差）。
+ *
+ * @param queries - 查詢次數
+ * @param usage - 預算使用紀錄
+ * @returns 預估費用（美元）
+ */
+const estimateCost = (queries: number, usage: PlacesBudgetUsage): number => {
+    return Number((queries * usage.costPerQueryUsd).toFixed(4));
+};
+
+/**
+ * 檢查設定的預算與整次執行共用的預算是否都還足夠再查詢一頁。
+ *
+ * 一頁最多會發送 1 + MAX_RETRIES 次請求，以最多的次數檢查，重試時才不會超出預算。
+ *
+ * @param usage - 預算使用紀錄
+ * @returns 足夠時返回 true
+ */
+const hasQueryBudget = (usage: PlacesBudgetUsage): boolean => {
+    const attempts = 1 + SEARCH_CONFIG.MAX_RETRIES;
+    const queries = usage.queriesUsed + attempts;
+    const runCost = Number((runUsage.estimatedCostUsd + attempts * usage.costPerQueryUsd).toFixed(4));
+    return (
+        queries <= usage.maxQueries &&
+        estimateCost(queries, usage) <= usage.maxCostUsd &&
+        runUsage.queriesUsed + attempts <= RUN_BUDGET.maxQueries &&
+        runCost <= RUN_BUDGET.maxCostUsd
+    );
+};
+
+/**
+ * 記錄一次請求（含重試），同時累計到整次執行的用量。
+ *
+ * @param usage - 預算使用紀錄（會被更新）
+ */
+const recordQuery = (usage: PlacesBudgetUsage): void => {
+    usage.queriesUsed++;
+    usage.estimatedCostUsd = estimateCost(usage.queriesUsed, usage);
+    runUsage.queriesUsed++;
+    runUsage.estimatedCostUsd = Number((runUsage.estimatedCostUsd + usage.costPerQueryUsd).toFixed(4));
+};
+
+/**
+ * 查詢網格內的地點，依設定翻頁。
+ *
+ * 最後一頁仍有 nextPageToken，或結果數達到單頁上限（回放的錄製檔可能沒有 token）時視為還有更多結果。
+ * 呼叫前須確認預算足夠查詢第一頁；預算在翻頁途中用完時標記為用完，返回已取得的結果並視為還有更多結果。
+ *
+ * @param keyword - 搜尋關鍵字
+ * @param cell - 搜尋網格
+ * @param maxPages - 最多查詢的頁數
+ * @param usage - 預算使用紀錄
+ * @returns 地點陣列，以及是否還有未取得的結果
+ */
+const searchCell = async (
+    keyword: string,
+    cell: GridCell,
+    maxPages: number,
+    usage: PlacesBudgetUsage,
+): Promise<{ places: PlaceResult[]; hasMore: boolean }> => {
+    const places: PlaceResult[] = [];
+    let pageToken: string | undefined;
+    let lastPageSize = 0;
+
+    for (let page = 0; page < maxPages; page++) {
+        if (page > 0 && !hasQueryBudget(usage)) {
+            usage.exhausted = true;
+            return { places, hasMore: true };
+        }
+
+        const response = await searchPlacesByText(keyword, cell, usage, pageToken);
+        places.push(...response.places);
+        lastPageSize = response.places.length;
+        pageToken = response.nextPageToken;
+        if (!pageToken) break;
+    }
+
+    return { places, hasMore: Boolean(pageToken) || lastPageSize >= SEARCH_CONFIG.MAX_RESULTS_PER_PAGE };
+};
+
+// ============================================================================
+// 行政區判斷函數
+// ============================================================================
+
+/**
+ * 載入搜尋區域的行政區界。
+ *
+ * @param region - 搜尋區域
+ * @param log - 日誌
+ * @returns 行政區界列表，未設定或（非 CI 環境中）找不到界線檔時返回 null
+ * @throws 界線檔格式錯誤、缺少行政區，或在 CI 中找不到界線檔時拋出錯誤
+ */
+const loadDistrictBoundaries = (region: PlacesRegion, log: Logger): DistrictBoundary[] | null => {
+    if (!region.boundaryFile) {
+        return null;
+    }
+
+    const collection = tryReadJsonFile<BoundaryFeatureCollection>(region.boundaryFile, BOUNDARY_DIR);
+    if (!collection) {
+        // 排程中缺少界線檔代表部署有誤，不應默默退回地址判斷
+        if (process.env.CI) {
+            throw new Error(`找不到行政區界檔案 data/boundaries/${region.boundaryFile}`);
+        }
+        log.warn(`找不到行政區界檔案 data/boundaries/${region.boundaryFile}，改以地址判斷行政區`);
+        return null;
+    }
+
+    return parseDistrictBoundaries(collection, region.districts, region.cityNames);
+};
+
+/**
+ * 從格式化地址中解析行政區。
+ *
+ * 地址必須同時包含城市名稱與行政區名稱，避免其他城市的同名行政區（例如台中市大安區）被誤判。
+ * Google 的地址可能是「台北市萬華區…」或「…萬華區臺北市台灣」兩種順序，因此不要求兩者相鄰。
+ *
+ * @param place - 地點資料
+ * @param region - 搜尋區域
+ * @returns 行政區名稱，不屬於該城市時返回 undefined
+ */
+const parseDistrictFromAddress = (place: PlaceResult, region: PlacesRegion): string | undefined => {
+    const address = place.formattedAddress;
+    if (!region.cityNames.some((cityName) => address.includes(cityName))) {
+        return undefined;
+    }
+
+    // 較長的名稱優先比對，避免短名稱誤中
+    const districts = [...region.districts].sort((a, b) => b.length - a.length);
+    return districts.find((district) => address.includes(district));
+};
+
+/**
+ * 判斷每個地點的行政區。
+ *
+ * 有行政區界時以座標所在的界線為準，座標不在任何界線內（例如海岸線附近的誤差）才改用地址；
+ * 兩種結果都有但不一致時記錄為衝突。兩種方式都判斷不出行政區的地點不屬於該城市，會被排除。
+ *
+ * @param places - 搜尋到的地點
+ * @param region - 搜尋區域
+ * @param boundaries - 行政區界，為 null 時只以地址判斷
+ * @returns 已判斷行政區的地點與判斷摘要
+ */
+const assignDistricts = (
+    places: PlaceResult[],
+    region: PlacesRegion,
+    boundaries: DistrictBoundary[] | null,
+): { places: PlaceResult[]; summary: DistrictAssignmentSummary } => {
+    const summary: DistrictAssignmentSummary = {
+        method: boundaries ? 'polygon' : 'address',
+        polygonMatches: 0,
+        addressFallbacks: 0,
+        conflicts: [],
+    };
+    const assigned: PlaceResult[] = [];
+
+    for (const place of places) {
+        const { latitude, longitude } = place.location;
+        const polygonDistrict = boundaries
+            ? findDistrictByPoint(boundaries, { lat: latitude, lng: longitude })
+            : undefined;
+        const addressDistrict = parseDistrictFromAddress(place, region);
+
+        if (polygonDistrict) {
+            place.district = polygonDistrict;
+            place.districtSource = 'polygon';
+            summary.polygonMatches++;
+            if (addressDistrict && addressDistrict !== polygonDistrict) {
+                summary.conflicts.push({
+                    id: place.id,
+                    name: place.name,
+                    formattedAddress: place.formattedAddress,
+                    polygonDistrict,
+                    addressDistrict,
+                });
+            }
+        } else if (addressDistrict) {
+            place.district = addressDistrict;
+            place.districtSource = 'address';
+            if (boundaries) {
+                summary.addressFallbacks++;
+            }
+        } else {
+            continue;
+        }
+
+        assigned.push(place);
+    }
+
+    return { places: assigned, summary };
+};
+
+/**
+ * 檢查地點是否在搜尋範圍內。
+ *
+ * @param place - 地點資料
+ * @param region - 搜尋區域
+ * @returns 若在範圍內返回 true
+ */
+const isWithinBounds = (place: PlaceResult, region: PlacesRegion): boolean => {
+    const { latitude, longitude } = place.location;
+    const { northwest, southeast } = region.bounds;
+    return (
+        latitude >= southeast.lat &&
+        latitude <= northwest.lat &&
+        longitude >= northwest.lng &&
+        longitude <= southeast.lng
+    );
+};
+
+// ============================================================================
+// 主要搜尋函數
+// ============================================================================
+
+/**
+ * 建立空白的覆蓋率統計。
+ *
+ * @param initialCells - 初始網格數
+ * @returns 覆蓋率統計
+ */
+const createSearchStats = (initialCells: number): PlacesSearchStats => ({
+    initialCells,
+    cellsSearched: 0,
+    saturatedCells: 0,
+    truncatedCells: 0,
+    failedCells: 0,
+    queryCount: 0,
+    maxDepth: 0,
+});
+
+/**
+ * 依設定搜尋範圍內所有店家。
+ *
+ * 從初始網格開始逐格查詢，結果達到上限的網格切成四格後放回佇列，
+ * 直到子格小於最小網格大小為止；結果未達上限的網格不再細分。
+ * 預算用完時停止搜尋，剩下的網格記為略過，已取得的結果照常輸出。
+ * 搜尋完成後再判斷行政區，排除不屬於該城市的地點。
+ *
+ * @param config - 地點搜尋設定
+ * @param log - 爬蟲的日誌工具
+ * @returns 去重後的店家列表、覆蓋率統計、預算使用情形與行政區判斷摘要
+ */
+const searchPlaces = async (config: PlacesHarvestConfig, log: Logger): Promise<PlacesSearchResult> => {
+    const { region } = config;
+    const boundaries = loadDistrictBoundaries(region, log);
+    const gridSizeKm = config.gridSizeKm ?? SEARCH_CONFIG.GRID_SIZE_KM;
+    const queue = calculateInitialCells(region.bounds.northwest, region.bounds.southeast, gridSizeKm);
+    const maxPages = config.maxPagesPerCell ?? SEARCH_CONFIG.MAX_PAGES_PER_CELL;
+    const stats = createSearchStats(queue.length);
+    const budgetUsage = createBudgetUsage(config.budget);
+
+    const uniqueShops = new Map<string, PlaceResult>();
+
+    log.info(`搜尋${region.name}${config.keyword} (${queue.length} 個初始網格)...`);
+
+    const endGridSearch = log.time('grid-search');
+    for (let cell = queue.shift(); cell; cell = queue.shift()) {
+        if (budgetUsage.exhausted || !hasQueryBudget(budgetUsage)) {
+            budgetUsage.exhausted = true;
+            budgetUsage.skippedCells = queue.length + 1;
+            log.warn(
+                `查詢預算已用完（${budgetUsage.queriesUsed} 次，約 $${budgetUsage.estimatedCostUsd}），` +
+                    `略過剩下的 ${budgetUsage.skippedCells} 個網格`,
+            );
+            break;
+        }
+
+        stats.cellsSearched++;
+        stats.maxDepth = Math.max(stats.maxDepth, cell.depth);
+
+        try {
+            const { places: results, hasMore } = await searchCell(config.keyword, cell, maxPages, budgetUsage);
+
+            for (const place of results) {
+                if (!isWithinBounds(place, region)) continue;
+
+                place.name = place.displayName.text;
+                uniqueShops.set(place.id, place);
+            }
+
+            if (hasMore) {
+                stats.saturatedCells++;
+                if (canSubdivideCell(cell, SEARCH_CONFIG.MIN_CELL_SIZE_KM)) {
+                    queue.push(...subdivideCell(cell));
+                } else {
+                    stats.truncatedCells++;
+                }
+            }
+        } catch {
+            // 忽略單一網格錯誤
+            stats.failedCells++;
+        }
+
+        // 每 20 次查詢顯示進度（總數會隨細分增加）
+        if (stats.cellsSearched % 20 === 0) {
+            log.progress(stats.cellsSearched, stats.cellsSearched + queue.length, `${uniqueShops.size} 間店家`);
+        }
+    }
+
+    endGridSearch();
+    stats.queryCount = budgetUsage.queriesUsed;
+
+    const endAssign = log.time('district-assignment');
+    const { places, summary } = assignDistricts(Array.from(uniqueShops.values()), region, boundaries);
+    endAssign();
+    return { places, stats, budgetUsage, districtAssignment: summary };
+};
+
+// ============================================================================
+// 匯出格式函數
+// ============================================================================
+
+/**
+ * 取得匯出檔的檔名（與 JSON 同名、副檔名不同）。
+ *
+ * @param config - 地點搜尋設定
+ * @param extension - 副檔名
+ * @returns 匯出檔名
+ */
+const getExportFilename = (config: PlacesHarvestConfig, extension: string): string => {
+    return config.filename.replace(/\.json$/, '') + `.${extension}`;
+};
+
+/**
+ * 將店家轉換為 GeoJSON FeatureCollection。
+ *
+ * @param shops - 店家列表
+ * @returns 每間店家為一個 Point 的 FeatureCollection
+ */
+const toFeatureCollection = (shops: PlaceShop[]): PlaceFeatureCollection => ({
+    type: 'FeatureCollection',
+    features: shops.map((shop) => ({
+        type: 'Feature',
+        id: shop.id,
+        geometry: { type: 'Point', coordinates: [shop.location.longitude, shop.location.latitude] },
+        properties: {
+            id: shop.id,
+            name: shop.name,
+            rating: shop.rating ?? null,
+            userRatingCount: shop.userRatingCount ?? null,
+            score: shop.score ?? null,
+            district: shop.district ?? null,
+            formattedAddress: shop.formattedAddress,
+        },
+    })),
+});
+
+/**
+ * 將店家轉換為 CSV。
+ *
+ * @param shops - 店家列表
+ * @returns CSV 文字內容
+ */
+const toCsv = (shops: PlaceShop[]): string => {
+    const rows = shops.map((shop): CsvValue[] => [
+        shop.id,
+        shop.name,
+        shop.rating,
+        shop.userRatingCount,
+        shop.score,
+        shop.district,
+        shop.formattedAddress,
+        shop.location.latitude,
+        shop.location.longitude,
+    ]);
+    return formatCsv([[...CSV_COLUMNS], ...rows]);
+};
+
+/**
+ * 將店家轉換為 KML。
+ *
+ * @param config - 地點搜尋設定
+ * @param shops - 店家列表
+ * @returns KML 文字內容
+ */
+const toKml = (config: PlacesHarvestConfig, shops: PlaceShop[]): string => {
+    return buildKml(
+        `${config.region.name}${config.keyword}`,
+        shops.map((shop) => ({
+            name: shop.name,
+            description: shop.formattedAddress,
+            coordinates: { lat: shop.location.latitude, lng: shop.location.longitude },
+            extendedData: {
+                rating: shop.rating,
+                userRatingCount: shop.userRatingCount,
+                score: shop.score,
+                district: shop.district,
+            },
+        })),
+    );
+};
+
+// ============================================================================
+// 爬蟲定義
+// ============================================================================
+
+/**
+ * 依地點搜尋設定建立爬蟲。
+ *
+ * @param config - 地點搜尋設定
+ * @returns 可由註冊表執行的爬蟲
+ */
+export const definePlacesScraper = (config: PlacesHarvestConfig): Scraper =>
+    defineScraper<PlacesSearchResult, ScraperPayload<PlacesOutput> & { changes: PlacesChangeUpdate }>({
+        name: config.name,
+        description: config.description,
+        source: 'Google Maps Places API (Text Search)',
+        cadence: '每 5 天',
+
+        setup: async () => {
+            if (!canQueryPlaces()) {
+                throw new Error('未設定 GOOGLE_MAPS_API_KEY 環境變數');
+            }
+        },
+
+        fetch: async (context) => {
+            try {
+                return await searchPlaces(config, context.logger);
+            } catch (error) {
+                context.errors.push(getErrorMessage(error));
+                return {
+                    places: [],
+                    stats: createSearchStats(0),
+                    budgetUsage: createBudgetUsage(config.budget),
+                    districtAssignment: { method: 'address', polygonMatches: 0, addressFallbacks: 0, conflicts: [] },
+                };
+            }
+        },
+
+        transform: ({ places: results, stats, budgetUsage, districtAssignment }) => {
+            // 統計各區店家數量
+            const districtStats: Record<string, number> = {};
+            for (const place of results) {
+                const district = place.district || '未知';
+                districtStats[district] = (districtStats[district] || 0) + 1;
+            }
+
+            const { shops, summary: ranking } = rankPlaces(
+                config,
+                results.map((place): PlaceShop => ({
+                    id: place.id,
+                    name: place.name,
+                    rating: place.rating,
+                    userRatingCount: place.userRatingCount,
+                    formattedAddress: place.formattedAddress,
+                    location: place.location,
+                    district: place.district,
+                    districtSource: place.districtSource,
+                })),
+            );
+
+            // 搜尋不完整時消失的店家可能只是沒搜到，不累計為歇業
+            const complete = stats.cellsSearched > 0 && stats.failedCells === 0 && !budgetUsage.exhausted;
+
+            return {
+                keyword: config.keyword,
+                region: config.region.name,
+                totalShops: results.length,
+                searchArea: {
+                    northwest: config.region.bounds.northwest,
+                    southeast: config.region.bounds.southeast,
+                    gridSizeKm: config.gridSizeKm ?? SEARCH_CONFIG.GRID_SIZE_KM,
+                    minCellSizeKm: SEARCH_CONFIG.MIN_CELL_SIZE_KM,
+                    maxPagesPerCell: config.maxPagesPerCell ?? SEARCH_CONFIG.MAX_PAGES_PER_CELL,
+                },
+                searchStats: stats,
+                budgetUsage,
+                districtAssignment,
+                ranking,
+                districtStats,
+                shops,
+                changes: buildPlacesChanges(config, shops, complete, getTaiwanDateString()),
+            };
+        },
+
+        outputs: (result) => {
+            const outputData: PlacesOutput = {
+                $schema: getSchemaUrl(placesOutputSchema),
+                updated: result.updated,
+                updateTime: result.updateTime,
+                keyword: result.data.keyword,
+                region: result.data.region,
+                totalShops: result.data.totalShops,
+                processingTimeMs: result.processingTimeMs,
+                searchArea: result.data.searchArea,
+                searchStats: result.data.searchStats,
+                budgetUsage: result.data.budgetUsage,
+                districtAssignment: result.data.districtAssignment,
+                ranking: result.data.ranking,
+                districtStats: result.data.districtStats,
+                errors: result.errors,
+                shops: result.data.shops,
+            };
+
+            // 匯出檔與變更紀錄來自同一份店家資料，JSON 未達品質門檻時一併保留前一版，
+            // 下次執行才會與同一個前一版比較
+            const { changes, shops } = result.data;
+            const changesDirectory = getChangesDirectory(config);
+            const topList = buildTopList(config, shops, result.data.ranking);
+            return [
+                {
+                    filename: config.filename,
+                    data: outputData,
+                    schema: placesOutputSchema,
+                    qualityGate: QUALITY_GATE,
+                    recordCount: shops.length,
+                },
+                {
+                    filename: getExportFilename(config, 'geojson'),
+                    data: toFeatureCollection(shops),
+                    schema: placeFeatureCollectionSchema,
+                    derivedFrom: config.filename,
+                    recordCount: shops.length,
+                },
+                {
+                    filename: getExportFilename(config, 'csv'),
+                    data: toCsv(shops),
+                    format: 'text',
+                    schema: placesCsvSchema,
+                    derivedFrom: config.filename,
+                    recordCount: shops.length,
+                },
+                {
+                    filename: getExportFilename(config, 'kml'),
+                    data: toKml(config, shops),
+                    format: 'text',
+                    schema: kmlSchema,
+                    derivedFrom: config.filename,
+                    recordCount: shops.length,
+                },
+                {
+                    filename: `${changesDirectory}/top.json`,
+                    data: { updated: result.updated, ...topList },
+                    schema: placesTopListSchema,
+                    derivedFrom: config.filename,
+                    recordCount: topList.top.length,
+                },
+                {
+                    filename: `${changesDirectory}/history.json`,
+                    data: { updated: result.updated, ...changes.history },
+                    schema: placesHistorySchema,
+                    derivedFrom: config.filename,
+                    recordCount: changes.history.entries.length,
+                },
+                {
+                    filename: `${changesDirectory}/new-this-week.json`,
+                    data: { updated: result.updated, ...changes.newThisWeek },
+                    schema: placesNewThisWeekSchema,
+                    derivedFrom: config.filename,
+                    recordCount: changes.newThisWeek.shops.length,
+                },
+            ];
+        },
+
+        report: (result, context) => {
+            const log = context.logger;
+            const { budgetUsage, changes, districtAssignment, districtStats, searchStats } = result.data;
+
+            log.success(`完成: ${result.data.totalShops} 間店家`);
+            log.info(
+                `查詢 ${searchStats.queryCount} 次，搜尋 ${searchStats.cellsSearched} 格` +
+                    `（飽和 ${searchStats.saturatedCells}、截斷 ${searchStats.truncatedCells}、失敗 ${searchStats.failedCells}，` +
+                    `最深 ${searchStats.maxDepth} 層）`,
+            );
+            log.info(
+                `預算使用: ${budgetUsage.queriesUsed}/${budgetUsage.maxQueries} 次，` +
+                    `約 $${budgetUsage.estimatedCostUsd}/$${budgetUsage.maxCostUsd}`,
+            );
+            if (budgetUsage.exhausted) {
+                log.warn(`查詢預算用完而提前停止，${budgetUsage.skippedCells} 個網格未搜尋`);
+            }
+            if (searchStats.truncatedCells > 0) {
+                log.warn(`${searchStats.truncatedCells} 個最小網格仍達結果上限，部分店家可能未收錄`);
+            }
+            if (districtAssignment.method === 'polygon') {
+                log.info(
+                    `行政區界判斷 ${districtAssignment.polygonMatches} 間，地址判斷 ${districtAssignment.addressFallbacks} 間`,
+                );
+            }
+            if (districtAssignment.conflicts.length > 0) {
+                log.warn(`${districtAssignment.conflicts.length} 間店家的行政區界與地址判斷不一致（以行政區界為準）`);
+            }
+
+            const { entry } = changes;
+            if (entry.previousUpdated) {
+                log.info(
+                    `與前一版相比: 新增 ${entry.added.length}、消失 ${entry.removed.length}、` +
+                        `重新出現 ${entry.reappeared.length}、評分或評論數明顯變化 ${entry.metricChanges.length}`,
+                );
+            }
+            if (entry.suspectedClosed.length > 0) {
+                log.warn(`疑似歇業: ${entry.suspectedClosed.map((shop) => shop.name).join('、')}`);
+            }
+
+            // 顯示各區統計（前 5 名）
+            if (Object.keys(districtStats).length > 0) {
+                log.info('各區統計:');
+                Object.entries(districtStats)
+                    .sort(([, a], [, b]) => b - a)
+                    .slice(0, 5)
+                    .forEach(([district, count]) => {
+                        log.info(`${district}: ${count} 間`);
+                    });
+            }
+        },
+
+        verify: (result) => (result.data.totalShops === 0 ? '未找到任何店家' : null),
+    });
+
+/** 所有地點搜尋爬蟲，依 `./places-config` 的設定產生 */
+export const placesScrapers: readonly Scraper[] = PLACES_CONFIGS.map(definePlacesScraper);
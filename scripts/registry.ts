@@ -0,0 +1,32 @@
+/**
+ * @fileoverview 爬蟲註冊表
+ *
+ * 集中登記所有可執行的爬蟲。新增資料集時，只需實作一個以 `defineScraper()`
+ * 定義的模組並加入此列表。
+ */
+
+import type { Scraper } from '../types';
+import { copywritingScraper } from './copywriting';
+import { horoscopeScraper } from './horoscope';
+import { placesScrapers } from './places';
+import { twCalendarScraper } from './tw-calendar';
+
+/** 所有已註冊的爬蟲 */
+const SCRAPERS: readonly Scraper[] = [horoscopeScraper, copywritingScraper, ...placesScrapers, twCalendarScraper];
+
+/**
+ * 取得所有已註冊的爬蟲。
+ *
+ * @returns 爬蟲列表
+ */
+export const listScrapers = (): readonly Scraper[] => SCRAPERS;
+
+/**
+ * 依名稱取得爬蟲。
+ *
+ * @param name - 爬蟲名稱
+ * @returns 對應的爬蟲，找不到時返回 undefined
+ */
+export const getScraper = (name: string): Scraper | undefined => {
+    return SCRAPERS.find((scraper) => scraper.name === name);
+};
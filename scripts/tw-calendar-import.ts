@@ -0,0 +1,271 @@
+/**
+ * @fileoverview 匯入政府資料開放平台的行事曆 CSV。
+ * 自動偵測編碼（UTF-8 / Big5）與欄位名稱，轉換為 data/tw-calendar/raw/<year>.json，
+ * 覆寫既有年度前會先列出差異，並以完整性檢查擋下缺漏或錯誤的資料。
+ *
+ * 🔗 資料來源：https://data.gov.tw/dataset/14718
+ *
+ * @example
+ * ```bash
+ * pnpm json-gather import-calendar ~/Downloads/116年中華民國政府行政機關辦公日曆表.csv --dry-run
+ * pnpm json-gather import-calendar ~/Downloads/116年中華民國政府行政機關辦公日曆表.csv
+ * ```
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import {
+    checkRawCalendar,
+    decodeText,
+    formatCalendarIssues,
+    getChineseWeekday,
+    getErrorMessage,
+    logger,
+    parseCompactDate,
+    parseCsv,
+    toCompactDate,
+    tryReadJsonFile,
+    writeTextFile,
+} from '../utils';
+import type {
+    CalendarColumnLayout,
+    CalendarImportOptions,
+    CalendarImportYearResult,
+    RawHoliday,
+    RawHolidayDiff,
+} from '../types';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const RAW_DIR = path.join(__dirname, '../data/tw-calendar/raw');
+
+/** 各欄位可能的名稱（不同年度的 CSV 欄位名稱略有差異） */
+const COLUMN_ALIASES: Record<keyof CalendarColumnLayout, string[]> = {
+    date: ['西元日期', '日期', 'date'],
+    week: ['星期', '星期別', 'week'],
+    isHoliday: ['是否放假', '是否放假日', 'isholiday'],
+    description: ['備註', '說明', 'description'],
+};
+
+/** 是否放假欄位的值對應到原始資料代碼（"2" 放假、"0" 上班） */
+const HOLIDAY_CODES: Record<string, string> = {
+    '2': '2',
+    '0': '0',
+    是: '2',
+    否: '0',
+    true: '2',
+    false: '0',
+    y: '2',
+    n: '0',
+};
+
+/** 差異最多列出的筆數 */
+const DIFF_PREVIEW_LIMIT = 30;
+
+/**
+ * 依標題列找出各欄位的位置。
+ * @param header 標題列
+ * @returns 欄位位置
+ * @throws 缺少日期或是否放假欄位時拋出錯誤
+ */
+const detectColumnLayout = (header: string[]): CalendarColumnLayout => {
+    const normalized = header.map((name) => name.trim().toLowerCase());
+    const find = (field: keyof CalendarColumnLayout): number | null => {
+        const index = normalized.findIndex((name) => COLUMN_ALIASES[field].includes(name));
+        return index === -1 ? null : index;
+    };
+
+    const date = find('date');
+    const isHoliday = find('isHoliday');
+    if (date === null || isHoliday === null) {
+        throw new Error(`無法辨識 CSV 欄位，需要日期與是否放假欄位。標題列: ${header.join(', ')}`);
+    }
+
+    return { date, week: find('week'), isHoliday, description: find('description') };
+};
+
+/**
+ * 將 CSV 中的日期轉換為 YYYYMMDD。
+ * @param value 日期欄位值（20260101、2026/1/1 或 2026-01-01）
+ * @returns 格式為 YYYYMMDD 的日期字串
+ * @throws 無法解析時拋出錯誤
+ */
+const normalizeCsvDate = (value: string): string => {
+    const match = /^(\d{4})(?:(\d{2})(\d{2})|[/-](\d{1,2})[/-](\d{1,2}))$/.exec(value.trim());
+    if (!match) {
+        throw new Error(`無法解析日期: "${value}"`);
+    }
+
+    const month = (match[2] ?? match[4]).padStart(2, '0');
+    const day = (match[3] ?? match[5]).padStart(2, '0');
+    const compact = `${match[1]}${month}${day}`;
+    if (toCompactDate(parseCompactDate(compact)) !== compact) {
+        throw new Error(`日期不存在: "${value}"`);
+    }
+    return compact;
+};
+
+/**
+ * 解析 CSV 文字為原始假日資料。
+ * @param text CSV 文字
+ * @returns 原始假日資料
+ * @throws 欄位無法辨識或資料格式錯誤時拋出錯誤（含列號）
+ */
+const parseCalendarCsv = (text: string): RawHoliday[] => {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) {
+        throw new Error('CSV 檔案是空的');
+    }
+    const layout = detectColumnLayout(header);
+
+    return rows.map((row, index) => {
+        const lineNumber = index + 2;
+        const cell = (column: number | null): string => (column === null ? '' : (row[column] ?? '').trim());
+
+        try {
+            const date = normalizeCsvDate(cell(layout.date));
+            const holidayValue = cell(layout.isHoliday);
+            const code = HOLIDAY_CODES[holidayValue.toLowerCase()];
+            if (!code) {
+                throw new Error(`無法辨識的是否放假值: "${holidayValue}"`);
+            }
+
+            return {
+                西元日期: date,
+                星期: layout.week === null ? getChineseWeekday(date) : cell(layout.week),
+                是否放假: code,
+                備註: cell(layout.description),
+            };
+        } catch (error) {
+            throw new Error(`第 ${lineNumber} 列: ${getErrorMessage(error)}`);
+        }
+    });
+};
+
+/**
+ * 比較既有與新的原始資料。
+ * @param previous 既有資料
+ * @param next 新資料
+ * @returns 差異
+ */
+const diffRawHolidays = (previous: RawHoliday[], next: RawHoliday[]): RawHolidayDiff => {
+    const previousByDate = new Map(previous.map((entry) => [entry.西元日期, entry]));
+    const nextByDate = new Map(next.map((entry) => [entry.西元日期, entry]));
+    const diff: RawHolidayDiff = { added: [], removed: [], changed: [] };
+
+    for (const [date, entry] of nextByDate) {
+        const before = previousByDate.get(date);
+        if (!before) {
+            diff.added.push(date);
+            continue;
+        }
+        for (const field of ['星期', '是否放假', '備註'] as const) {
+            if (before[field] !== entry[field]) {
+                diff.changed.push({ date, field, before: before[field], after: entry[field] });
+            }
+        }
+    }
+    diff.removed = [...previousByDate.keys()].filter((date) => !nextByDate.has(date));
+
+    return diff;
+};
+
+/**
+ * 輸出差異摘要。
+ * @param year 年份
+ * @param diff 差異
+ */
+const printDiff = (year: string, diff: RawHolidayDiff): void => {
+    const total = diff.added.length + diff.removed.length + diff.changed.length;
+    if (total === 0) {
+        logger.info(`${year}.json 內容沒有變更`);
+        return;
+    }
+
+    const lines = [
+        ...diff.added.map((date) => `  + ${date}`),
+        ...diff.removed.map((date) => `  - ${date}`),
+        ...diff.changed.map((change) => `  ~ ${change.date} ${change.field}: "${change.before}" → "${change.after}"`),
+    ];
+    const preview = lines.slice(0, DIFF_PREVIEW_LIMIT);
+    if (lines.length > DIFF_PREVIEW_LIMIT) {
+        preview.push(`  ...以及其他 ${lines.length - DIFF_PREVIEW_LIMIT} 項`);
+    }
+
+    logger.warn(
+        `${year}.json 差異: 新增 ${diff.added.length} 天、移除 ${diff.removed.length} 天、變更 ${diff.changed.length} 個欄位\n` +
+            preview.join('\n'),
+    );
+};
+
+/**
+ * 以既有原始檔案的格式（每天一行）序列化資料。
+ * @param entries 原始假日資料
+ * @returns JSON 文字
+ */
+const formatRawHolidays = (entries: RawHoliday[]): string => {
+    const lines = entries.map((entry) => {
+        const fields = Object.entries(entry).map(([key, value]) => `${JSON.stringify(key)}: ${JSON.stringify(value)}`);
+        return `    { ${fields.join(', ')} }`;
+    });
+    return `[\n${lines.join(',\n')}\n]\n`;
+};
+
+/**
+ * 匯入行事曆 CSV，依年份寫入原始資料檔案。
+ * @param filePath CSV 檔案路徑
+ * @param options 匯入選項
+ * @returns 各年度的匯入結果
+ * @throws 檔案無法讀取或格式錯誤時拋出錯誤
+ */
+export const importCalendarCsv = (filePath: string, options: CalendarImportOptions = {}): CalendarImportYearResult[] => {
+    const { text, encoding } = decodeText(fs.readFileSync(filePath));
+    const entries = parseCalendarCsv(text).sort((a, b) => a.西元日期.localeCompare(b.西元日期));
+    logger.info(`讀取 ${path.basename(filePath)}（${encoding}），共 ${entries.length} 天`);
+
+    const byYear = new Map<string, RawHoliday[]>();
+    for (const entry of entries) {
+        const year = entry.西元日期.slice(0, 4);
+        const yearEntries = byYear.get(year) ?? [];
+        yearEntries.push(entry);
+        byYear.set(year, yearEntries);
+    }
+
+    // 任一年度有錯誤時，所有年度都不寫入
+    const invalidYears: string[] = [];
+    for (const [year, yearEntries] of byYear) {
+        const { errors, warnings } = checkRawCalendar(Number(year), yearEntries);
+        if (warnings.length > 0) {
+            logger.warn(`${year}.json 有 ${warnings.length} 筆資料需要確認:\n${formatCalendarIssues(warnings)}`);
+        }
+        if (errors.length > 0) {
+            logger.error(`${year}.json 資料檢查失敗 (${errors.length} 個錯誤):\n${formatCalendarIssues(errors)}`);
+            invalidYears.push(year);
+        }
+    }
+    if (invalidYears.length > 0) {
+        throw new Error(`行事曆資料檢查失敗，未寫入任何檔案: ${invalidYears.join(', ')}`);
+    }
+
+    return [...byYear.entries()].map(([year, yearEntries]) => {
+        const filename = `${year}.json`;
+        const previous = tryReadJsonFile<RawHoliday[]>(filename, RAW_DIR);
+        const diff = previous ? diffRawHolidays(previous, yearEntries) : null;
+
+        if (diff) {
+            printDiff(year, diff);
+        } else {
+            logger.info(`${filename} 為新年度，共 ${yearEntries.length} 天`);
+        }
+
+        const unchanged = diff && diff.added.length + diff.removed.length + diff.changed.length === 0;
+        if (options.dryRun || unchanged) {
+            return { year, totalDays: yearEntries.length, diff, written: false };
+        }
+
+        const writtenPath = writeTextFile(filename, formatRawHolidays(yearEntries), RAW_DIR);
+        logger.success(`已保存至: ${writtenPath}`);
+        return { year, totalDays: yearEntries.length, diff, written: true };
+    });
+};
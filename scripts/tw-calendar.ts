@@ -1,18 +1,73 @@
 /**
  * @fileoverview 將原始假日資料轉換為應用程式所需格式的腳本。
- * 讀取 data/tw-calendar/raw 目錄下的 JSON 檔案，轉換欄位名稱並輸出至 data/tw-calendar/processed。
+ * 讀取 data/tw-calendar/raw 目錄下的 JSON 檔案，轉換欄位名稱並輸出至 data/tw-calendar/processed，
+ * 並產生每月資料、假日清單、上班日統計、近期假日與 iCalendar (.ics) 等衍生檔案。
+ *
+ * @example
+ * ```bash
+ * pnpm run convert:tw-calendar
+ * # 或
+ * pnpm json-gather run tw-calendar
+ * ```
  */
 
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
-import { logger, readJsonFile, writeJsonFile } from '../utils';
-import type { RawHoliday, ProcessedHoliday } from '../types';
+import {
+    buildICalendar,
+    checkRawCalendar,
+    defineScraper,
+    formatCalendarIssues,
+    getErrorMessage,
+    getTaiwanDateString,
+    groupHolidayPeriods,
+    readJsonFile,
+    toCompactDate,
+} from '../utils';
+import type {
+    CalendarStatsOutput,
+    HolidayListOutput,
+    HolidayPeriod,
+    ICalendarEvent,
+    Logger,
+    MonthlyCalendarStats,
+    ProcessedHoliday,
+    QualityGate,
+    RawHoliday,
+    ScraperContext,
+    ScraperOutputFile,
+    ScraperResult,
+    TwCalendarData,
+    UpcomingHolidaysOutput,
+} from '../types';
+import {
+    calendarStatsOutputSchema,
+    holidayListOutputSchema,
+    iCalendarSchema,
+    processedHolidaysSchema,
+    upcomingHolidaysOutputSchema,
+} from '../types/schemas';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const RAW_DIR = path.join(__dirname, '../data/tw-calendar/raw');
-const PROCESSED_DIR = path.join(__dirname, '../data/tw-calendar/processed');
+const CALENDAR_DIR = path.join(__dirname, '../data/tw-calendar');
+const RAW_DIR = path.join(CALENDAR_DIR, 'raw');
+const PROCESSED_DIR = path.join(CALENDAR_DIR, 'processed');
+
+/** upcoming.json 列出的假期數量 */
+const UPCOMING_LIMIT = 10;
+
+/** iCalendar 設定 */
+const ICS_CONFIG = {
+    DIRECTORY: 'ics',
+    COMBINED_FILENAME: 'tw-calendar.ics',
+    CALENDAR_NAME: '台灣行事曆',
+    UID_DOMAIN: 'json-gather.garylin0969.github.io',
+} as const;
+
+/** 品質門檻：每年至少要有 365 天的資料 */
+const QUALITY_GATE: QualityGate = { field: 'length', min: 365 };
 
 /**
  * 將單筆原始假日資料轉換為目標格式。
@@ -27,35 +82,285 @@ const convertHoliday = (raw: RawHoliday): ProcessedHoliday => ({
 });
 
 /**
- * 處理單一 JSON 檔案的轉換。
- * @param filename 檔案名稱
+ * 讀取所有原始假日資料檔案。
+ * @param context 爬蟲執行狀態
+ * @returns 以檔案名稱為鍵的原始資料
  */
-const processFile = (filename: string): void => {
-    try {
-        const rawHolidays = readJsonFile<RawHoliday[]>(filename, RAW_DIR);
-        const processed = rawHolidays.map(convertHoliday);
-        writeJsonFile(filename, processed, PROCESSED_DIR);
-        logger.success(`已轉換: ${filename}`);
-    } catch (error) {
-        logger.error(`轉換失敗: ${filename}`, error);
+const readRawFiles = (context: ScraperContext): Record<string, RawHoliday[]> => {
+    const files = fs.readdirSync(RAW_DIR).filter((file) => file.endsWith('.json'));
+    const rawFiles: Record<string, RawHoliday[]> = {};
+
+    for (const filename of files) {
+        try {
+            rawFiles[filename] = readJsonFile<RawHoliday[]>(filename, RAW_DIR);
+        } catch (error) {
+            context.logger.error(`讀取失敗: ${filename}`, error);
+            context.errors.push(`${filename}: ${getErrorMessage(error)}`);
+        }
     }
+
+    return rawFiles;
 };
 
-/** 主程式入口。 */
-const main = (): void => {
-    if (!fs.existsSync(PROCESSED_DIR)) {
-        fs.mkdirSync(PROCESSED_DIR, { recursive: true });
+/**
+ * 檢查所有原始資料的完整性，警告只輸出日誌，有錯誤時中止轉換。
+ * @param rawFiles 以檔案名稱為鍵的原始資料
+ * @param log 日誌
+ * @throws 任一檔案有錯誤時拋出錯誤，不寫入任何檔案
+ */
+const checkRawFiles = (rawFiles: Record<string, RawHoliday[]>, log: Logger): void => {
+    const invalidFiles: string[] = [];
+
+    for (const [filename, rawHolidays] of Object.entries(rawFiles)) {
+        const { errors, warnings } = checkRawCalendar(parseInt(filename, 10), rawHolidays);
+        if (warnings.length > 0) {
+            log.warn(`${filename} 有 ${warnings.length} 筆資料需要確認:\n${formatCalendarIssues(warnings)}`);
+        }
+        if (errors.length > 0) {
+            log.error(`${filename} 資料檢查失敗 (${errors.length} 個錯誤):\n${formatCalendarIssues(errors)}`);
+            invalidFiles.push(filename);
+        }
     }
 
-    const files = fs.readdirSync(RAW_DIR).filter((file) => file.endsWith('.json'));
+    if (invalidFiles.length > 0) {
+        throw new Error(`行事曆資料檢查失敗: ${invalidFiles.join(', ')}`);
+    }
+};
 
-    if (files.length === 0) {
-        logger.error('沒有找到任何 JSON 檔案');
-        return;
+/**
+ * 依月份分組單年資料。
+ * @param days 單年的每日資料
+ * @returns 以 YYYY-MM 為鍵的每日資料
+ */
+const groupByMonth = (days: ProcessedHoliday[]): Record<string, ProcessedHoliday[]> => {
+    const months: Record<string, ProcessedHoliday[]> = {};
+    for (const day of days) {
+        const key = `${day.date.slice(0, 4)}-${day.date.slice(4, 6)}`;
+        (months[key] ??= []).push(day);
     }
+    return months;
+};
+
+/**
+ * 取出補行上班日（有說明但不放假的日子）。
+ * @param days 每日資料
+ * @returns 補行上班日
+ */
+const getMakeupWorkdays = (days: ProcessedHoliday[]): ProcessedHoliday[] =>
+    days.filter((day) => !day.isHoliday && day.description);
+
+/**
+ * 將連續假期與補行上班日轉換為 iCalendar 全天事件。
+ * UID 只取決於日期與事件種類，重新產生時訂閱端會更新而非新增重複事件。
+ * @param periods 連續假期
+ * @param makeupWorkdays 補行上班日
+ * @returns 依開始日期排序的事件
+ */
+const buildCalendarEvents = (periods: HolidayPeriod[], makeupWorkdays: ProcessedHoliday[]): ICalendarEvent[] => {
+    const holidayEvents = periods.map((period) => ({
+        uid: `${period.startDate}-holiday@${ICS_CONFIG.UID_DOMAIN}`,
+        summary: period.name,
+        startDate: period.startDate,
+        endDate: period.endDate,
+        description: `${period.descriptions.join('、')}，連續放假 ${period.totalDays} 天`,
+        categories: ['放假'],
+    }));
+    const workdayEvents = makeupWorkdays.map((day) => ({
+        uid: `${day.date}-workday@${ICS_CONFIG.UID_DOMAIN}`,
+        summary: day.description,
+        startDate: day.date,
+        endDate: day.date,
+        categories: ['補行上班'],
+    }));
+
+    return [...holidayEvents, ...workdayEvents].sort((a, b) => a.startDate.localeCompare(b.startDate));
+};
+
+/**
+ * 建立年度假日清單。
+ * @param year 年份
+ * @param days 單年的每日資料
+ * @param data 轉換結果（用於取得跨年度計算的假期）
+ * @returns 年度假日清單
+ */
+const buildHolidayList = (year: number, days: ProcessedHoliday[], data: TwCalendarData): HolidayListOutput => ({
+    year,
+    holidays: days.filter((day) => day.isHoliday && day.description),
+    makeupWorkdays: getMakeupWorkdays(days),
+    periods: data.periods.filter((period) => period.startDate.startsWith(String(year))),
+});
+
+/**
+ * 建立年度上班日統計。
+ * @param year 年份
+ * @param days 單年的每日資料
+ * @returns 年度上班日統計
+ */
+const buildCalendarStats = (year: number, days: ProcessedHoliday[]): CalendarStatsOutput => {
+    const months: MonthlyCalendarStats[] = Object.entries(groupByMonth(days)).map(([key, monthDays]) => ({
+        month: key.slice(5),
+        totalDays: monthDays.length,
+        workdays: monthDays.filter((day) => !day.isHoliday).length,
+        daysOff: monthDays.filter((day) => day.isHoliday).length,
+        namedHolidays: monthDays.filter((day) => day.isHoliday && day.description).length,
+    }));
+
+    return {
+        year,
+        totalWorkdays: months.reduce((sum, month) => sum + month.workdays, 0),
+        totalDaysOff: months.reduce((sum, month) => sum + month.daysOff, 0),
+        months,
+    };
+};
+
+/**
+ * 建立近期假日資料，包含基準日當天仍在進行中的假期。
+ * @param result 爬蟲執行結果
+ * @returns 近期假日資料
+ */
+const buildUpcomingHolidays = (result: ScraperResult<TwCalendarData>): UpcomingHolidaysOutput => {
+    const { baseDate, periods } = result.data;
+    const upcoming = periods.filter((period) => period.endDate >= baseDate).slice(0, UPCOMING_LIMIT);
+    return {
+        updated: result.updated,
+        baseDate,
+        next: upcoming[0] ?? null,
+        periods: upcoming,
+    };
+};
+
+/**
+ * 產生單年的所有輸出檔案。
+ * @param filename 原始檔案名稱（例如 2026.json）
+ * @param days 單年的每日資料
+ * @param data 轉換結果
+ * @returns 輸出檔案列表
+ */
+const buildYearOutputs = (filename: string, days: ProcessedHoliday[], data: TwCalendarData): ScraperOutputFile[] => {
+    const year = parseInt(filename, 10);
+    const holidayList = buildHolidayList(year, days, data);
+    const events = buildCalendarEvents(holidayList.periods, holidayList.makeupWorkdays);
+    const monthlyOutputs = Object.entries(groupByMonth(days)).map(([month, monthDays]) => ({
+        filename: `monthly/${month}.json`,
+        data: monthDays,
+        schema: processedHolidaysSchema,
+        directory: CALENDAR_DIR,
+        derivedFrom: filename,
+    }));
 
-    files.forEach(processFile);
-    logger.success(`完成！共轉換 ${files.length} 個檔案`);
+    return [
+        {
+            filename,
+            data: days,
+            schema: processedHolidaysSchema,
+            directory: PROCESSED_DIR,
+            qualityGate: QUALITY_GATE,
+        },
+        ...monthlyOutputs,
+        {
+            filename: `holidays/${year}.json`,
+            data: holidayList,
+            schema: holidayListOutputSchema,
+            directory: CALENDAR_DIR,
+            derivedFrom: filename,
+            recordCount: holidayList.periods.length,
+        },
+        {
+            filename: `stats/${year}.json`,
+            data: buildCalendarStats(year, days),
+            schema: calendarStatsOutputSchema,
+            directory: CALENDAR_DIR,
+            derivedFrom: filename,
+        },
+        {
+            filename: `${ICS_CONFIG.DIRECTORY}/${year}.ics`,
+            data: buildICalendar(`${ICS_CONFIG.CALENDAR_NAME} ${year}`, events),
+            format: 'text',
+            schema: iCalendarSchema,
+            directory: CALENDAR_DIR,
+            derivedFrom: filename,
+            recordCount: events.length,
+        },
+    ];
 };
 
-main();
+/**
+ * 產生包含所有年度的 iCalendar 檔案。
+ * @param data 轉換結果
+ * @returns 輸出檔案
+ */
+const buildCombinedCalendarOutput = (data: TwCalendarData): ScraperOutputFile => {
+    const allDays = Object.keys(data.years)
+        .sort()
+        .flatMap((filename) => data.years[filename]);
+    const events = buildCalendarEvents(data.periods, getMakeupWorkdays(allDays));
+    return {
+        filename: `${ICS_CONFIG.DIRECTORY}/${ICS_CONFIG.COMBINED_FILENAME}`,
+        data: buildICalendar(ICS_CONFIG.CALENDAR_NAME, events),
+        format: 'text',
+        schema: iCalendarSchema,
+        directory: CALENDAR_DIR,
+        derivedFrom: Object.keys(data.years),
+        recordCount: events.length,
+    };
+};
+
+/** 台灣行事曆轉換：將原始資料轉換欄位名稱後輸出，並產生衍生檔案。 */
+export const twCalendarScraper = defineScraper<Record<string, RawHoliday[]>, TwCalendarData>({
+    name: 'tw-calendar',
+    description: '台灣行事曆轉換',
+    source: '政府資料開放平台 - 中華民國政府行政機關辦公日曆表',
+    cadence: '每天',
+
+    fetch: async (context) => readRawFiles(context),
+
+    transform: (rawFiles, context) => {
+        checkRawFiles(rawFiles, context.logger);
+
+        const years: Record<string, ProcessedHoliday[]> = {};
+        for (const [filename, rawHolidays] of Object.entries(rawFiles)) {
+            years[filename] = rawHolidays.map(convertHoliday);
+        }
+
+        // 假期可能跨年（例如元旦連假），因此合併所有年度後再分組
+        const allDays = Object.keys(years)
+            .sort()
+            .flatMap((filename) => years[filename]);
+
+        return {
+            years,
+            periods: groupHolidayPeriods(allDays),
+            baseDate: toCompactDate(getTaiwanDateString()),
+        };
+    },
+
+    outputs: (result) => {
+        const upcoming = buildUpcomingHolidays(result);
+        return [
+            ...Object.entries(result.data.years).flatMap(([filename, days]) =>
+                buildYearOutputs(filename, days, result.data),
+            ),
+            buildCombinedCalendarOutput(result.data),
+            {
+                filename: 'upcoming.json',
+                data: upcoming,
+                schema: upcomingHolidaysOutputSchema,
+                directory: CALENDAR_DIR,
+                derivedFrom: Object.keys(result.data.years),
+                recordCount: upcoming.periods.length,
+            },
+        ];
+    },
+
+    report: (result, context) => {
+        context.logger.success(`完成！共轉換 ${Object.keys(result.data.years).length} 個檔案`);
+        const next = buildUpcomingHolidays(result).next;
+        if (next) {
+            context.logger.info(
+                `下一個假期: ${next.name} (${next.startDate}-${next.endDate}，共 ${next.totalDays} 天)`,
+            );
+        }
+    },
+
+    verify: (result) => (Object.keys(result.data.years).length === 0 ? '沒有找到任何 JSON 檔案' : null),
+});
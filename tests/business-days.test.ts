@@ -0,0 +1,102 @@
+/**
+ * @fileoverview 工作日計算測試
+ *
+ * 以 `data/tw-calendar/processed/` 中 2017-2026 年的實際行事曆資料驗證工作日計算。
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { loadBusinessCalendar } from '../utils';
+
+const calendar = loadBusinessCalendar();
+
+describe('loadBusinessCalendar', () => {
+    test('涵蓋 2017-2026 年', () => {
+        assert.equal(calendar.firstDate, '20170101');
+        assert.equal(calendar.lastDate, '20261231');
+    });
+});
+
+describe('補行上班的星期六', () => {
+    test('視為上班日', () => {
+        assert.equal(calendar.isWorkday('20250208'), true);
+        assert.equal(calendar.isWorkday('2023-01-07'), true);
+        assert.equal(calendar.isWorkday('20170218'), true);
+    });
+
+    test('一般星期六仍為放假日', () => {
+        assert.equal(calendar.isWorkday('20250215'), false);
+    });
+
+    test('跨越補班日計算上班日', () => {
+        assert.equal(calendar.nextWorkday('20250207'), '20250208');
+        assert.equal(calendar.addBusinessDays('20250207', 2), '20250210');
+        assert.equal(calendar.businessDaysBetween('20250203', '20250210'), 6);
+    });
+});
+
+describe('農曆春節連假', () => {
+    test('2026 年 2 月 14 日至 22 日皆為放假日', () => {
+        for (let day = 14; day <= 22; day++) {
+            assert.equal(calendar.isWorkday(`202602${day}`), false, `202602${day}`);
+        }
+    });
+
+    test('跳過整段連假', () => {
+        assert.equal(calendar.nextWorkday('20260213'), '20260223');
+        assert.equal(calendar.previousWorkday('20260223'), '20260213');
+        assert.equal(calendar.addBusinessDays('20260213', 1), '20260223');
+        assert.equal(calendar.businessDaysBetween('20260213', '20260223'), 1);
+    });
+
+    test('從連假中的日期起算', () => {
+        assert.equal(calendar.nextWorkday('2026-02-17'), '20260223');
+        assert.equal(calendar.addBusinessDays('20260217', 0), '20260217');
+    });
+});
+
+describe('addBusinessDays 往前計算', () => {
+    test('負數往前數上班日', () => {
+        assert.equal(calendar.addBusinessDays('20260223', -1), '20260213');
+        assert.equal(calendar.addBusinessDays('20250210', -1), '20250208');
+        assert.equal(calendar.addBusinessDays('20250210', -6), '20250203');
+        assert.equal(calendar.addBusinessDays('20250210', -7), '20250124');
+    });
+
+    test('與正數互為反向', () => {
+        assert.equal(calendar.addBusinessDays(calendar.addBusinessDays('20240102', 30), -30), '20240102');
+    });
+
+    test('businessDaysBetween 結束日較早時為負數', () => {
+        assert.equal(calendar.businessDaysBetween('20260223', '20260213'), -1);
+    });
+
+    test('非整數時拋出錯誤', () => {
+        assert.throws(() => calendar.addBusinessDays('20260223', 1.5), /必須為整數/);
+    });
+});
+
+describe('資料範圍外的日期', () => {
+    test('最後一個上班日之後拋出 RangeError', () => {
+        assert.throws(() => calendar.nextWorkday('20261231'), RangeError);
+        assert.throws(() => calendar.addBusinessDays('20261230', 2), RangeError);
+    });
+
+    test('第一天之前拋出 RangeError', () => {
+        assert.throws(() => calendar.previousWorkday('20170101'), RangeError);
+        assert.throws(() => calendar.addBusinessDays('20170103', -2), RangeError);
+    });
+
+    test('超出範圍的日期拋出 RangeError', () => {
+        assert.throws(() => calendar.isWorkday('20270101'), RangeError);
+        assert.throws(() => calendar.isWorkday('20161231'), RangeError);
+    });
+
+    test('不存在的日期拋出一般錯誤', () => {
+        assert.throws(
+            () => calendar.isWorkday('20260230'),
+            (error) => !(error instanceof RangeError),
+        );
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview 簡繁轉換測試
+ *
+ * 以 `fixtures/cassettes/` 中錄製的簡體 API 回應驗證批次轉換的結果與逐一呼叫 opencc-js 完全相同。
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, test } from 'node:test';
+
+import { Converter, type ConverterOptions } from 'opencc-js';
+
+import type { Cassette, ChineseConversionProfile } from '../types';
+import { convertManyToTraditional, initializeChineseConverter } from '../utils';
+
+/** 與 utils/chinese-converter.ts 相同的 opencc-js 參數 */
+const PROFILES: Record<ChineseConversionProfile, ConverterOptions> = {
+    tw: { from: 'cn', to: 'tw' },
+    twp: { from: 'cn', to: 'twp' },
+    hk: { from: 'cn', to: 'hk' },
+};
+
+/**
+ * 收集錄製檔回應中的所有字串。
+ *
+ * @param value - 要走訪的資料
+ * @param texts - 收集到的字串
+ */
+const collectStrings = (value: unknown, texts: string[]): void => {
+    if (typeof value === 'string') {
+        texts.push(value);
+    } else if (Array.isArray(value)) {
+        value.forEach((item) => collectStrings(item, texts));
+    } else if (value && typeof value === 'object') {
+        Object.values(value).forEach((item) => collectStrings(item, texts));
+    }
+};
+
+const cassetteTexts: string[] = [];
+for (const name of ['horoscope', 'copywriting']) {
+    const cassette = JSON.parse(
+        fs.readFileSync(path.join(__dirname, '..', 'fixtures', 'cassettes', `${name}.json`), 'utf8'),
+    ) as Cassette;
+    cassette.interactions.forEach((interaction) => collectStrings(interaction.response.data, cassetteTexts));
+}
+
+/** 批次轉換需要特別處理的字串：空字串、含分隔字元、跨分隔字元可能組成詞組，以及重複的字串 */
+const edgeCases = [
+    '',
+    '软件鼠标',
+    '软件\uE000鼠标',
+    '\uE000',
+    '头发\uE000',
+    '头',
+    '发',
+    '软件',
+    '',
+    '头发',
+    '鼠标\n内存',
+];
+
+for (const [profile, options] of Object.entries(PROFILES) as [
+    ChineseConversionProfile,
+    { from: string; to: string },
+][]) {
+    describe(`convertManyToTraditional (${profile})`, () => {
+        test('批次結果與逐一轉換相同', async () => {
+            assert.equal(await initializeChineseConverter(profile), true);
+            const reference = await Converter(options);
+            const texts = [...edgeCases, ...cassetteTexts];
+
+            const batch = await convertManyToTraditional(texts, profile);
+
+            assert.equal(batch.length, texts.length);
+            for (const [index, text] of texts.entries()) {
+                assert.equal(batch[index], await reference(text), JSON.stringify(text));
+            }
+        });
+    });
+}
@@ -0,0 +1,48 @@
+/**
+ * @fileoverview CSV 測試
+ *
+ * 驗證匯出時的 RFC 4180 引號規則，並以 {@link parseCsv} 確認含特殊字元的欄位能原樣讀回。
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import type { CsvValue } from '../types';
+import { decodeText, formatCsv, parseCsv } from '../utils';
+
+describe('formatCsv', () => {
+    test('加上 BOM 並以 CRLF 換行', () => {
+        assert.equal(
+            formatCsv([
+                ['name', 'rating'],
+                ['富宏牛肉麵', 4.2],
+            ]),
+            '\uFEFFname,rating\r\n富宏牛肉麵,4.2\r\n',
+        );
+    });
+
+    test('含逗號、雙引號或換行的欄位以雙引號包住，雙引號重複一次', () => {
+        assert.equal(
+            formatCsv([['a,b', 'say "hi"', 'line\nbreak', 'cr\rlf', '一般']]),
+            '\uFEFF"a,b","say ""hi""","line\nbreak","cr\rlf",一般\r\n',
+        );
+    });
+
+    test('null 與 undefined 輸出為空欄位，數字轉為文字', () => {
+        assert.equal(formatCsv([[null, undefined, 0, '']]), '\uFEFF,,0,\r\n');
+    });
+
+    test('格式化後可由 parseCsv 原樣讀回', () => {
+        const rows: CsvValue[][] = [
+            ['id', 'name', 'formattedAddress'],
+            ['ChIJ1', '林東芳牛肉麵', '104台北市中山區八德路二段274號'],
+            ['ChIJ2', '老王"牛肉麵"', '台北市, 大安區\r\n2 樓'],
+            ['ChIJ3', '', '"'],
+        ];
+
+        const { text, encoding } = decodeText(Buffer.from(formatCsv(rows), 'utf8'));
+
+        assert.equal(encoding, 'utf-8');
+        assert.deepEqual(parseCsv(text), rows);
+    });
+});
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview 行政區界測試
+ *
+ * 以簡單的多邊形驗證射線法的邊界情況，並以 `data/boundaries/` 中實際的界線檔驗證台北市的行政區判斷。
+ */
+
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { describe, test } from 'node:test';
+
+import { PLACES_CONFIGS } from '../scripts/places-config';
+import type { BoundaryFeature, BoundaryFeatureCollection, PolygonCoordinates } from '../types';
+import { findDistrictByPoint, parseDistrictBoundaries, readJsonFile } from '../utils';
+
+/**
+ * 建立矩形的環。
+ *
+ * @param west - 最小經度
+ * @param south - 最小緯度
+ * @param east - 最大經度
+ * @param north - 最大緯度
+ * @returns 逆時針、首尾相同的環
+ */
+const rectangle = (west: number, south: number, east: number, north: number): [number, number][] => [
+    [west, south],
+    [east, south],
+    [east, north],
+    [west, north],
+    [west, south],
+];
+
+/**
+ * 建立單一行政區的 Feature。
+ *
+ * @param name - 行政區名稱
+ * @param polygons - 多邊形列表
+ * @param county - 縣市名稱
+ * @returns GeoJSON Feature
+ */
+const feature = (name: string, polygons: PolygonCoordinates[], county?: string): BoundaryFeature => ({
+    type: 'Feature',
+    properties: county ? { TOWNNAME: name, COUNTYNAME: county } : { TOWNNAME: name },
+    geometry:
+        polygons.length === 1
+            ? { type: 'Polygon', coordinates: polygons[0] }
+            : { type: 'MultiPolygon', coordinates: polygons },
+});
+
+/**
+ * 建立 FeatureCollection。
+ *
+ * @param features - Feature 列表
+ * @returns GeoJSON FeatureCollection
+ */
+const collection = (...features: BoundaryFeature[]): BoundaryFeatureCollection => ({
+    type: 'FeatureCollection',
+    features,
+});
+
+describe('findDistrictByPoint', () => {
+    test('多邊形內外', () => {
+        const boundaries = parseDistrictBoundaries(
+            collection(feature('甲區', [[rectangle(0, 0, 10, 10)]])),
+            ['甲區'],
+            [],
+        );
+
+        assert.equal(findDistrictByPoint(boundaries, { lat: 5, lng: 5 }), '甲區');
+        assert.equal(findDistrictByPoint(boundaries, { lat: 5, lng: 11 }), undefined);
+        assert.equal(findDistrictByPoint(boundaries, { lat: -0.1, lng: 5 }), undefined);
+    });
+
+    test('凹多邊形的凹口不算在內', () => {
+        const shape: [number, number][] = [
+            [0, 0],
+            [10, 0],
+            [10, 10],
+            [5, 5],
+            [0, 10],
+            [0, 0],
+        ];
+        const boundaries = parseDistrictBoundaries(collection(feature('甲區', [[shape]])), ['甲區'], []);
+
+        assert.equal(findDistrictByPoint(boundaries, { lat: 2, lng: 5 }), '甲區');
+        assert.equal(findDistrictByPoint(boundaries, { lat: 8, lng: 5 }), undefined);
+    });
+
+    test('洞內的點屬於洞所在的行政區', () => {
+        const outer = feature('外區', [[rectangle(0, 0, 10, 10), rectangle(4, 4, 6, 6)]]);
+        const inner = feature('內區', [[rectangle(4, 4, 6, 6)]]);
+        const boundaries = parseDistrictBoundaries(collection(outer, inner), ['外區', '內區'], []);
+
+        assert.equal(findDistrictByPoint(boundaries, { lat: 5, lng: 5 }), '內區');
+        assert.equal(findDistrictByPoint(boundaries, { lat: 2, lng: 2 }), '外區');
+    });
+
+    test('MultiPolygon 的每個多邊形都屬於同一行政區', () => {
+        const island = feature('島區', [[rectangle(0, 0, 1, 1)], [rectangle(5, 5, 6, 6)]]);
+        const boundaries = parseDistrictBoundaries(collection(island), ['島區'], []);
+
+        assert.equal(findDistrictByPoint(boundaries, { lat: 0.5, lng: 0.5 }), '島區');
+        assert.equal(findDistrictByPoint(boundaries, { lat: 5.5, lng: 5.5 }), '島區');
+        assert.equal(findDistrictByPoint(boundaries, { lat: 3, lng: 3 }), undefined);
+    });
+
+    test('相鄰行政區共用邊界上的點只屬於其中一區，且與順序無關', () => {
+        const west = feature('西區', [[rectangle(0, 0, 10, 10)]]);
+        const east = feature('東區', [[rectangle(10, 0, 20, 10)]]);
+        const boundaries = parseDistrictBoundaries(collection(west, east), ['西區', '東區'], []);
+        const reversed = [...boundaries].reverse();
+
+        for (const point of [
+            { lat: 5, lng: 10 },
+            { lat: 0, lng: 10 },
+        ]) {
+            const district = findDistrictByPoint(boundaries, point);
+            assert.notEqual(district, undefined, JSON.stringify(point));
+            assert.equal(findDistrictByPoint(reversed, point), district, JSON.stringify(point));
+        }
+    });
+});
+
+describe('parseDistrictBoundaries', () => {
+    test('依 COUNTYNAME 排除其他縣市的同名行政區', () => {
+        const boundaries = parseDistrictBoundaries(
+            collection(
+                feature('大安區', [[rectangle(0, 0, 1, 1)]], '臺中市'),
+                feature('大安區', [[rectangle(10, 10, 11, 11)]], '臺北市'),
+            ),
+            ['大安區'],
+            ['台北市', '臺北市'],
+        );
+
+        assert.equal(boundaries.length, 1);
+        assert.deepEqual(boundaries[0].bbox, [10, 10, 11, 11]);
+    });
+
+    test('缺少行政區時拋出錯誤', () => {
+        assert.throws(
+            () => parseDistrictBoundaries(collection(feature('甲區', [[rectangle(0, 0, 1, 1)]])), ['甲區', '乙區'], []),
+            /缺少行政區: 乙區/,
+        );
+    });
+
+    test('不是 FeatureCollection 時拋出錯誤', () => {
+        assert.throws(
+            () => parseDistrictBoundaries({ type: 'Feature' } as unknown as BoundaryFeatureCollection, [], []),
+            /FeatureCollection/,
+        );
+    });
+});
+
+describe('台北市行政區界', () => {
+    const region = PLACES_CONFIGS.find((config) => config.name === 'taipei-beef-noodles')!.region;
+    const boundaries = parseDistrictBoundaries(
+        readJsonFile<BoundaryFeatureCollection>(region.boundaryFile!, path.join(__dirname, '../data/boundaries')),
+        region.districts,
+        region.cityNames,
+    );
+
+    test('涵蓋所有行政區', () => {
+        assert.equal(boundaries.length, 12);
+    });
+
+    test('地標落在正確的行政區', () => {
+        assert.equal(findDistrictByPoint(boundaries, { lat: 25.0339, lng: 121.5645 }), '信義區'); // 台北 101
+        assert.equal(findDistrictByPoint(boundaries, { lat: 25.0478, lng: 121.517 }), '中正區'); // 台北車站
+        assert.equal(findDistrictByPoint(boundaries, { lat: 25.0375, lng: 121.4999 }), '萬華區'); // 龍山寺
+        assert.equal(findDistrictByPoint(boundaries, { lat: 25.1023, lng: 121.5485 }), '士林區'); // 故宮博物院
+    });
+
+    test('新北市的座標不屬於台北市任何行政區', () => {
+        assert.equal(findDistrictByPoint(boundaries, { lat: 25.0129, lng: 121.4627 }), undefined); // 板橋車站
+    });
+});
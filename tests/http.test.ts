@@ -0,0 +1,203 @@
+/**
+ * @fileoverview HTTP 客戶端測試
+ *
+ * 退避時間、`Retry-After` 與狀態碼判斷直接測試純函數；重試流程則對本機的測試伺服器發送真實請求。
+ */
+
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, test } from 'node:test';
+
+import { computeBackoffDelay, createHttpClient, isRetryableStatus, parseRetryAfter } from '../utils';
+
+/** 測試伺服器的單次回應 */
+interface TestResponse {
+    status: number;
+    headers?: Record<string, string>;
+    body?: unknown;
+}
+
+describe('computeBackoffDelay', () => {
+    const options = { baseDelay: 1000, maxDelay: 30000 };
+    const lowest = (): number => 0;
+    const highest = (): number => 1;
+
+    test('抖動範圍為指數延遲的一半到全部', () => {
+        assert.equal(computeBackoffDelay(0, options, lowest), 500);
+        assert.equal(computeBackoffDelay(0, options, highest), 1000);
+        assert.equal(computeBackoffDelay(2, options, lowest), 2000);
+        assert.equal(computeBackoffDelay(2, options, highest), 4000);
+    });
+
+    test('不超過 maxDelay', () => {
+        assert.equal(computeBackoffDelay(10, options, lowest), 15000);
+        assert.equal(computeBackoffDelay(10, options, highest), 30000);
+    });
+
+    test('預設亂數的結果落在範圍內', () => {
+        for (let i = 0; i < 100; i++) {
+            const value = computeBackoffDelay(3, options);
+            assert.ok(value >= 4000 && value <= 8000, String(value));
+        }
+    });
+});
+
+describe('parseRetryAfter', () => {
+    const now = Date.parse('2026-10-19T12:00:00Z');
+
+    test('秒數', () => {
+        assert.equal(parseRetryAfter('120', now), 120000);
+        assert.equal(parseRetryAfter('0', now), 0);
+    });
+
+    test('HTTP 日期', () => {
+        assert.equal(parseRetryAfter('Mon, 19 Oct 2026 12:00:30 GMT', now), 30000);
+    });
+
+    test('已過去的日期視為不需等待', () => {
+        assert.equal(parseRetryAfter('Mon, 19 Oct 2026 11:00:00 GMT', now), 0);
+    });
+
+    test('缺少或無法解析時返回 null', () => {
+        assert.equal(parseRetryAfter(undefined, now), null);
+        assert.equal(parseRetryAfter('', now), null);
+        assert.equal(parseRetryAfter('soon', now), null);
+    });
+});
+
+describe('isRetryableStatus', () => {
+    test('逾時、限流與伺服器錯誤可重試', () => {
+        for (const status of [408, 425, 429, 500, 502, 503, 504]) {
+            assert.equal(isRetryableStatus(status), true, String(status));
+        }
+    });
+
+    test('其他用戶端錯誤不重試', () => {
+        for (const status of [400, 401, 403, 404, 422, 501]) {
+            assert.equal(isRetryableStatus(status), false, String(status));
+        }
+    });
+});
+
+describe('createHttpClient', () => {
+    const responses: TestResponse[] = [];
+    let requestCount = 0;
+    let baseUrl = '';
+
+    const server = http.createServer((_req, res) => {
+        requestCount++;
+        const response = responses.shift() ?? { status: 500 };
+        res.writeHead(response.status, { 'content-type': 'application/json', ...response.headers });
+        res.end(JSON.stringify(response.body ?? {}));
+    });
+
+    const client = createHttpClient({ baseDelay: 1, maxDelay: 5, maxRetries: 2, timeout: 2000 });
+
+    before(async () => {
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+        responses.length = 0;
+        requestCount = 0;
+    });
+
+    test('成功時返回資料與嘗試次數', async () => {
+        responses.push({ status: 200, body: { value: 1 } });
+
+        const result = await client.get<{ value: number }>(`${baseUrl}/ok`);
+
+        assert.deepEqual(result, { ok: true, status: 200, data: { value: 1 }, attempts: 1 });
+    });
+
+    test('可重試的狀態碼會重試直到成功', async () => {
+        responses.push({ status: 503 }, { status: 429, headers: { 'retry-after': '0' } }, { status: 200 });
+
+        const result = await client.get(`${baseUrl}/flaky`);
+
+        assert.equal(result.ok, true);
+        assert.equal(result.attempts, 3);
+        assert.equal(requestCount, 3);
+    });
+
+    test('重試次數用完時返回最後一次的錯誤', async () => {
+        responses.push({ status: 500 }, { status: 502 }, { status: 503 }, { status: 200 });
+
+        const result = await client.get(`${baseUrl}/down`);
+
+        assert.deepEqual(result, {
+            ok: false,
+            error: { kind: 'http', message: 'HTTP 503', status: 503, retryable: true },
+            attempts: 3,
+        });
+        assert.equal(requestCount, 3);
+    });
+
+    test('每次嘗試（含重試）前都呼叫 onAttempt', async () => {
+        responses.push({ status: 503 }, { status: 500 }, { status: 502 });
+        const calls: number[] = [];
+
+        const result = await client.get(`${baseUrl}/billed`, { onAttempt: (attempt) => calls.push(attempt) });
+
+        assert.equal(result.ok, false);
+        assert.deepEqual(calls, [1, 2, 3]);
+        assert.equal(calls.length, requestCount);
+    });
+
+    test('不可重試的狀態碼立即失敗', async () => {
+        responses.push({ status: 404 });
+
+        const result = await client.get(`${baseUrl}/missing`);
+
+        assert.deepEqual(result, {
+            ok: false,
+            error: { kind: 'http', message: 'HTTP 404', status: 404, retryable: false },
+            attempts: 1,
+        });
+    });
+
+    test('validate 失敗時重試，仍失敗則返回 invalid 錯誤', async () => {
+        responses.push({ status: 200, body: {} }, { status: 200, body: {} }, { status: 200, body: {} });
+
+        const result = await client.get<{ text?: string }>(`${baseUrl}/invalid`, {
+            validate: (data) => (data.text ? null : '缺少 text'),
+        });
+
+        assert.equal(result.ok, false);
+        if (!result.ok) {
+            assert.deepEqual(result.error, { kind: 'invalid', message: '缺少 text', status: 200, retryable: true });
+        }
+        assert.equal(result.attempts, 3);
+    });
+
+    test('validate 在重試後通過時返回資料', async () => {
+        responses.push({ status: 200, body: {} }, { status: 200, body: { text: '你好' } });
+
+        const result = await client.get<{ text?: string }>(`${baseUrl}/eventually-valid`, {
+            validate: (data) => (data.text ? null : '缺少 text'),
+        });
+
+        assert.equal(result.ok, true);
+        if (result.ok) {
+            assert.equal(result.data.text, '你好');
+        }
+        assert.equal(result.attempts, 2);
+    });
+
+    test('連線失敗時返回 network 錯誤', async () => {
+        const result = await client.get('http://127.0.0.1:1/unreachable', { maxRetries: 0 });
+
+        assert.equal(result.ok, false);
+        if (!result.ok) {
+            assert.equal(result.error.kind, 'network');
+            assert.equal(result.error.retryable, true);
+        }
+        assert.equal(result.attempts, 1);
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * @fileoverview iCalendar 測試
+ *
+ * 驗證全天事件的欄位、TEXT 跳脫，以及依 UTF-8 位元組摺疊長行時不會切開多位元組字元。
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { buildICalendar } from '../utils';
+
+/**
+ * 依 RFC 5545 展開摺疊的行。
+ *
+ * @param ics - iCalendar 文字內容
+ * @returns 展開後的各行
+ */
+const unfold = (ics: string): string[] => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('buildICalendar', () => {
+    test('產生全天事件，DTEND 為結束日的隔天', () => {
+        const ics = buildICalendar('台灣行事曆', [
+            { uid: '20261231-holiday@json-gather', summary: '跨年', startDate: '20261231', endDate: '20261231' },
+        ]);
+
+        assert.ok(ics.endsWith('END:VCALENDAR\r\n'));
+        assert.doesNotMatch(ics, /[^\r]\n/);
+        const lines = unfold(ics);
+        assert.ok(lines.includes('X-WR-CALNAME:台灣行事曆'));
+        assert.ok(lines.includes('DTSTART;VALUE=DATE:20261231'));
+        assert.ok(lines.includes('DTEND;VALUE=DATE:20270101'));
+        assert.ok(lines.includes('DTSTAMP:20261231T000000Z'));
+    });
+
+    test('跳脫 TEXT 中的反斜線、分號、逗號與換行', () => {
+        const ics = buildICalendar('行事曆', [
+            {
+                uid: 'a@json-gather',
+                summary: '補班;調整,放假\\備註',
+                description: '第一行\n第二行',
+                categories: ['國定假日', 'a,b'],
+                startDate: '20260101',
+                endDate: '20260101',
+            },
+        ]);
+
+        const lines = unfold(ics);
+        assert.ok(lines.includes('SUMMARY:補班\\;調整\\,放假\\\\備註'));
+        assert.ok(lines.includes('DESCRIPTION:第一行\\n第二行'));
+        assert.ok(lines.includes('CATEGORIES:國定假日,a\\,b'));
+    });
+
+    test('長行依 UTF-8 位元組摺疊，每行不超過 75 位元組且不切開多位元組字元', () => {
+        const summaries = [
+            '中華民國開國紀念日'.repeat(6),
+            `a${'國'.repeat(40)}`,
+            `ab${'😀'.repeat(30)}`,
+            `é${'ß'.repeat(50)}`,
+            'x'.repeat(200),
+        ];
+        const ics = buildICalendar(
+            '行事曆',
+            summaries.map((summary, index) => ({
+                uid: `${index}@json-gather`,
+                summary,
+                startDate: '20260101',
+                endDate: '20260101',
+            })),
+        );
+
+        const physicalLines = ics.slice(0, -2).split('\r\n');
+        assert.ok(physicalLines.some((line) => line.startsWith(' ')));
+        for (const line of physicalLines) {
+            assert.ok(Buffer.byteLength(line, 'utf8') <= 75, line);
+            assert.doesNotMatch(line, /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/);
+        }
+
+        const lines = unfold(ics);
+        for (const summary of summaries) {
+            assert.ok(lines.includes(`SUMMARY:${summary}`), summary);
+        }
+    });
+
+    test('剛好 75 位元組的行不摺疊，多一個位元組才摺疊', () => {
+        const exact = buildICalendar('行事曆', [
+            { uid: 'a', summary: '國'.repeat(22) + 'x', startDate: '20260101', endDate: '20260101' },
+        ]);
+        const over = buildICalendar('行事曆', [
+            { uid: 'a', summary: '國'.repeat(22) + 'xy', startDate: '20260101', endDate: '20260101' },
+        ]);
+
+        // SUMMARY: 為 8 位元組，22 個中文字為 66 位元組
+        assert.ok(exact.includes(`\r\nSUMMARY:${'國'.repeat(22)}x\r\n`));
+        assert.ok(over.includes(`\r\nSUMMARY:${'國'.repeat(22)}x\r\n y\r\n`));
+    });
+});
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview KML 測試
+ *
+ * 驗證名稱、說明與額外欄位中的 XML 特殊字元都經過跳脫，產生的文件仍是結構正確的 KML。
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { buildKml } from '../utils';
+
+describe('buildKml', () => {
+    test('產生含座標與額外欄位的 Placemark', () => {
+        const kml = buildKml('台北市牛肉麵', [
+            { name: '富宏牛肉麵', coordinates: { lat: 25.0476, lng: 121.5077 }, extendedData: { rating: 4.2 } },
+        ]);
+
+        assert.equal(
+            kml,
+            [
+                '<?xml version="1.0" encoding="UTF-8"?>',
+                '<kml xmlns="http://www.opengis.net/kml/2.2">',
+                '  <Document>',
+                '    <name>台北市牛肉麵</name>',
+                '    <Placemark>',
+                '      <name>富宏牛肉麵</name>',
+                '      <ExtendedData>',
+                '        <Data name="rating"><value>4.2</value></Data>',
+                '      </ExtendedData>',
+                '      <Point><coordinates>121.5077,25.0476</coordinates></Point>',
+                '    </Placemark>',
+                '  </Document>',
+                '</kml>',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    test('跳脫名稱、說明、欄位名稱與欄位值中的 XML 特殊字元', () => {
+        const kml = buildKml('A&B <牛肉麵>', [
+            {
+                name: `老張's "紅燒" <牛肉麵> & 小菜`,
+                description: '<script>alert(1)</script>',
+                coordinates: { lat: 25, lng: 121.5 },
+                extendedData: { 'a"b': `x<y & y>'z'` },
+            },
+        ]);
+
+        assert.ok(kml.includes('    <name>A&amp;B &lt;牛肉麵&gt;</name>'));
+        assert.ok(kml.includes('<name>老張&apos;s &quot;紅燒&quot; &lt;牛肉麵&gt; &amp; 小菜</name>'));
+        assert.ok(kml.includes('<description>&lt;script&gt;alert(1)&lt;/script&gt;</description>'));
+        assert.ok(kml.includes('<Data name="a&quot;b"><value>x&lt;y &amp; y&gt;&apos;z&apos;</value></Data>'));
+        assert.doesNotMatch(kml, /&(?!amp;|lt;|gt;|quot;|apos;)/);
+        assert.doesNotMatch(kml, /<script>/);
+    });
+
+    test('略過 null 與 undefined 的額外欄位，全部略過時不輸出 ExtendedData', () => {
+        const kml = buildKml('測試', [
+            { name: '甲', coordinates: { lat: 25, lng: 121.5 }, extendedData: { district: null, score: undefined } },
+            { name: '乙', coordinates: { lat: 25, lng: 121.5 }, extendedData: { district: '大安區', score: 0 } },
+        ]);
+
+        assert.equal(kml.match(/<ExtendedData>/g)?.length, 1);
+        assert.ok(kml.includes('<Data name="score"><value>0</value></Data>'));
+        assert.doesNotMatch(kml, /name="district"><value>(null|undefined)?</);
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * @fileoverview 地點搜尋變更追蹤測試
+ *
+ * 在暫存目錄中模擬連續多次執行：每次比對後寫出店家資料與歷史檔，作為下一次執行的前一版。
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+
+import { buildPlacesChanges, getChangesDirectory } from '../scripts/places-changes';
+import { PLACES_CONFIGS } from '../scripts/places-config';
+import type { PlacesChangeUpdate, PlaceShop } from '../types';
+import { writeJsonFile } from '../utils';
+
+const config = PLACES_CONFIGS.find((item) => item.name === 'taipei-beef-noodles')!;
+
+/**
+ * 建立測試用的店家。
+ *
+ * @param id - 地點 ID
+ * @param rating - 評分
+ * @param userRatingCount - 評論數量
+ * @returns 店家
+ */
+const shop = (id: string, rating = 4.5, userRatingCount = 100): PlaceShop => ({
+    id,
+    name: `${id} 牛肉麵`,
+    rating,
+    userRatingCount,
+    formattedAddress: '',
+    location: { latitude: 25.04, longitude: 121.55 },
+    district: '大安區',
+});
+
+describe('buildPlacesChanges', () => {
+    let directory = '';
+
+    /**
+     * 執行一次比對並寫出結果，模擬一次排程執行。
+     *
+     * @param date - 執行日期（YYYY-MM-DD）
+     * @param shops - 本次的店家
+     * @param complete - 本次搜尋是否完整
+     * @returns 本次的變更資料
+     */
+    const run = (date: string, shops: PlaceShop[], complete = true): PlacesChangeUpdate => {
+        const changes = buildPlacesChanges(config, shops, complete, date, directory);
+        const updated = `${date}T00:00:00.000Z`;
+        writeJsonFile(config.filename, { updated, shops }, directory);
+        writeJsonFile(`${getChangesDirectory(config)}/history.json`, { updated, ...changes.history }, directory);
+        return changes;
+    };
+
+    /**
+     * 取出店家摘要的 ID。
+     *
+     * @param shops - 店家摘要列表
+     * @returns ID 列表
+     */
+    const ids = (shops: { id: string }[]): string[] => shops.map((item) => item.id);
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'places-changes-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('第一次執行只建立基準，不列出新店家', () => {
+        const { entry, newThisWeek } = run('2026-10-01', [shop('a'), shop('b')]);
+
+        assert.equal(entry.previousUpdated, null);
+        assert.deepEqual(entry.added, []);
+        assert.deepEqual(entry.removed, []);
+        assert.deepEqual(newThisWeek.shops, []);
+    });
+
+    test('記錄新出現與消失的店家，消失的店家開始追蹤', () => {
+        run('2026-10-01', [shop('a'), shop('b')]);
+
+        const { entry, history, newThisWeek } = run('2026-10-06', [shop('a'), shop('c')]);
+
+        assert.equal(entry.previousUpdated, '2026-10-01T00:00:00.000Z');
+        assert.deepEqual(ids(entry.added), ['c']);
+        assert.deepEqual(ids(entry.removed), ['b']);
+        assert.deepEqual(
+            history.missing.map((item) => [item.shop.id, item.missingSince, item.missedRuns]),
+            [['b', '2026-10-06', 1]],
+        );
+        assert.deepEqual(
+            newThisWeek.shops.map((item) => [item.id, item.firstSeen]),
+            [['c', '2026-10-06']],
+        );
+    });
+
+    test('連續在完整搜尋中消失達門檻次數才列為疑似歇業，且只列一次', () => {
+        run('2026-10-01', [shop('a'), shop('b')]);
+        const first = run('2026-10-06', [shop('a')]);
+        const incomplete = run('2026-10-11', [shop('a')], false);
+        const second = run('2026-10-16', [shop('a')]);
+        const third = run('2026-10-21', [shop('a')]);
+
+        assert.deepEqual(first.entry.suspectedClosed, []);
+        assert.deepEqual(incomplete.entry.suspectedClosed, []);
+        assert.equal(incomplete.history.missing[0].missedRuns, 1);
+        assert.deepEqual(ids(second.entry.suspectedClosed), ['b']);
+        assert.deepEqual(third.entry.suspectedClosed, []);
+        assert.equal(third.history.missing[0].missedRuns, 3);
+    });
+
+    test('消失後再出現的店家列為重新出現而非新店家', () => {
+        run('2026-10-01', [shop('a'), shop('b')]);
+        run('2026-10-06', [shop('a')]);
+        run('2026-10-11', [shop('a')]);
+
+        const { entry, history, newThisWeek } = run('2026-10-16', [shop('a'), shop('b')]);
+
+        assert.deepEqual(ids(entry.reappeared), ['b']);
+        assert.deepEqual(entry.added, []);
+        assert.deepEqual(history.missing, []);
+        assert.deepEqual(newThisWeek.shops, []);
+    });
+
+    test('消失過久的店家不再追蹤，之後出現視為新店家', () => {
+        run('2026-10-01', [shop('a'), shop('b')]);
+        let missing = run('2026-10-02', [shop('a')]).history.missing;
+        for (let day = 3; missing.length > 0; day++) {
+            missing = run(`2026-10-${String(day).padStart(2, '0')}`, [shop('a')]).history.missing;
+            assert.ok(day < 20, '應在追蹤上限內停止追蹤');
+        }
+
+        const { entry } = run('2026-10-25', [shop('a'), shop('b')]);
+
+        assert.deepEqual(ids(entry.added), ['b']);
+        assert.deepEqual(entry.reappeared, []);
+    });
+
+    test('只記錄評分與評論數的明顯變化', () => {
+        run('2026-10-01', [shop('a', 4.3, 100), shop('b', 4.3, 1000), shop('c', 4.3, 100)]);
+
+        const { entry } = run('2026-10-06', [shop('a', 4.5, 160), shop('b', 4.4, 1100), shop('c', 4.2, 149)]);
+
+        assert.deepEqual(
+            entry.metricChanges.map((change) => [change.id, change.field, change.before, change.after]),
+            [
+                ['a', 'rating', 4.3, 4.5],
+                ['a', 'userRatingCount', 100, 160],
+            ],
+        );
+    });
+
+    test('本週新店家只列出最近 7 天出現且仍存在的店家', () => {
+        run('2026-10-01', [shop('a')]);
+        run('2026-10-03', [shop('a'), shop('old')]);
+        run('2026-10-08', [shop('a'), shop('old'), shop('gone')]);
+
+        const { newThisWeek } = run('2026-10-09', [shop('a'), shop('old'), shop('new')]);
+
+        assert.equal(newThisWeek.since, '2026-10-03');
+        assert.deepEqual(
+            newThisWeek.shops.map((item) => [item.id, item.firstSeen]),
+            [
+                ['new', '2026-10-09'],
+                ['old', '2026-10-03'],
+            ],
+        );
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview 地點搜尋網格測試
+ *
+ * 驗證初始網格完整覆蓋搜尋範圍，以及四分樹細分出的子格剛好拼回原本的網格。
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { calculateInitialCells, canSubdivideCell, getCellSizeKm, subdivideCell } from '../scripts/places-grid';
+import type { GridCell } from '../types';
+
+/**
+ * 計算網格的面積（平方度）。
+ *
+ * @param cell - 網格
+ * @returns 面積
+ */
+const area = (cell: GridCell): number =>
+    (cell.northwest.lat - cell.southeast.lat) * (cell.southeast.lng - cell.northwest.lng);
+
+const northwest = { lat: 25.2, lng: 121.45 };
+const southeast = { lat: 24.96, lng: 121.67 };
+
+describe('calculateInitialCells', () => {
+    const cells = calculateInitialCells(northwest, southeast, 2.4);
+
+    test('網格不超出範圍，且面積總和等於範圍面積', () => {
+        for (const cell of cells) {
+            assert.ok(cell.northwest.lat <= northwest.lat && cell.southeast.lat >= southeast.lat);
+            assert.ok(cell.northwest.lng >= northwest.lng && cell.southeast.lng <= southeast.lng);
+            assert.equal(cell.depth, 0);
+        }
+
+        const total = cells.reduce((sum, cell) => sum + area(cell), 0);
+        assert.ok(Math.abs(total - area({ northwest, southeast, depth: 0 })) < 1e-9, String(total));
+    });
+
+    test('除了裁切的邊緣，網格邊長等於設定大小', () => {
+        const [first] = cells;
+        assert.ok(Math.abs(getCellSizeKm(first) - 2.4) < 1e-9);
+        assert.ok(cells.every((cell) => getCellSizeKm(cell) <= 2.4 + 1e-9));
+    });
+
+    test('範圍小於一格時只有一格', () => {
+        const small = calculateInitialCells({ lat: 25.01, lng: 121.5 }, { lat: 25, lng: 121.51 }, 2.4);
+
+        assert.deepEqual(small, [
+            { northwest: { lat: 25.01, lng: 121.5 }, southeast: { lat: 25, lng: 121.51 }, depth: 0 },
+        ]);
+    });
+});
+
+describe('subdivideCell', () => {
+    const cell: GridCell = { northwest: { lat: 25.1, lng: 121.5 }, southeast: { lat: 25, lng: 121.6 }, depth: 2 };
+    const children = subdivideCell(cell);
+
+    test('切成西北、東北、西南、東南四格，層數加一', () => {
+        assert.deepEqual(
+            children.map((child) => [child.northwest, child.southeast, child.depth]),
+            [
+                [{ lat: 25.1, lng: 121.5 }, { lat: 25.05, lng: 121.55 }, 3],
+                [{ lat: 25.1, lng: 121.55 }, { lat: 25.05, lng: 121.6 }, 3],
+                [{ lat: 25.05, lng: 121.5 }, { lat: 25, lng: 121.55 }, 3],
+                [{ lat: 25.05, lng: 121.55 }, { lat: 25, lng: 121.6 }, 3],
+            ],
+        );
+    });
+
+    test('子格邊長為一半，面積總和等於原網格', () => {
+        for (const child of children) {
+            assert.ok(Math.abs(getCellSizeKm(child) - getCellSizeKm(cell) / 2) < 1e-9);
+        }
+
+        const total = children.reduce((sum, child) => sum + area(child), 0);
+        assert.ok(Math.abs(total - area(cell)) < 1e-12);
+    });
+});
+
+describe('canSubdivideCell', () => {
+    test('子格不小於最小邊長時才細分', () => {
+        const cell = calculateInitialCells(northwest, southeast, 2.4)[0];
+        const depths: number[] = [];
+
+        for (let current = cell; canSubdivideCell(current, 0.3); current = subdivideCell(current)[0]) {
+            depths.push(current.depth);
+        }
+
+        // 2.4 → 1.2 → 0.6 → 0.3，第四層的 0.3 公里網格不再細分
+        assert.deepEqual(depths, [0, 1, 2]);
+    });
+});
@@ -0,0 +1,148 @@
+/**
+ * @fileoverview 地點排名測試
+ *
+ * 驗證貝氏平均的先驗權重如何讓評論數少的高分店家向全市平均靠攏，以及排行榜的名額與排序。
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { PLACES_CONFIGS } from '../scripts/places-config';
+import { buildTopList, rankPlaces } from '../scripts/places-ranking';
+import type { PlacesHarvestConfig, PlaceShop } from '../types';
+
+const baseConfig = PLACES_CONFIGS.find((config) => config.name === 'taipei-beef-noodles')!;
+
+/**
+ * 建立測試用的設定。
+ *
+ * @param ranking - 覆寫的排名設定
+ * @returns 地點搜尋設定
+ */
+const createConfig = (ranking: PlacesHarvestConfig['ranking']): PlacesHarvestConfig => ({ ...baseConfig, ranking });
+
+/**
+ * 建立測試用的店家。
+ *
+ * @param id - 地點 ID
+ * @param rating - 評分
+ * @param userRatingCount - 評論數量
+ * @param district - 所屬行政區
+ * @returns 店家
+ */
+const shop = (id: string, rating?: number, userRatingCount?: number, district = '大安區'): PlaceShop => ({
+    id,
+    name: id,
+    rating,
+    userRatingCount,
+    formattedAddress: '',
+    location: { latitude: 25, longitude: 121.5 },
+    district,
+});
+
+describe('rankPlaces', () => {
+    test('分數為店家評分與全市平均依評論數加權', () => {
+        const { shops, summary } = rankPlaces(createConfig({ priorWeight: 10 }), [shop('a', 5, 10), shop('b', 3, 30)]);
+
+        assert.deepEqual(summary, { meanRating: 4, priorWeight: 10, rankedShops: 2 });
+        // a: (10 × 5 + 10 × 4) / 20；b: (30 × 3 + 10 × 4) / 40
+        assert.deepEqual(
+            shops.map((item) => [item.id, item.score]),
+            [
+                ['a', 4.5],
+                ['b', 3.25],
+            ],
+        );
+    });
+
+    test('評論數少的 5.0 分店家排在評論數多的 4.8 分店家之後', () => {
+        const { shops } = rankPlaces(createConfig({ priorWeight: 100 }), [
+            shop('new', 5, 3),
+            shop('famous', 4.8, 2000),
+            shop('average', 3.9, 500),
+        ]);
+
+        assert.deepEqual(
+            shops.map((item) => item.id),
+            ['famous', 'new', 'average'],
+        );
+    });
+
+    test('先驗權重越大，分數越接近全市平均', () => {
+        const shops = [shop('a', 5, 50), shop('b', 3, 50)];
+        const scores = [0, 10, 100, 1000].map(
+            (priorWeight) => rankPlaces(createConfig({ priorWeight }), shops).shops[0].score!,
+        );
+
+        assert.equal(scores[0], 5);
+        for (let i = 1; i < scores.length; i++) {
+            assert.ok(scores[i] < scores[i - 1] && scores[i] > 4, String(scores));
+        }
+    });
+
+    test('沒有評分的店家不計入平均、不給分數並排在最後', () => {
+        const { shops, summary } = rankPlaces(createConfig({ priorWeight: 0 }), [
+            shop('unrated'),
+            shop('a', 4, 10),
+            shop('b', 4.4, 10),
+        ]);
+
+        assert.equal(summary.meanRating, 4.2);
+        assert.equal(summary.rankedShops, 2);
+        assert.deepEqual(
+            shops.map((item) => [item.id, item.score]),
+            [
+                ['b', 4.4],
+                ['a', 4],
+                ['unrated', undefined],
+            ],
+        );
+    });
+
+    test('同分時評論數多者在前', () => {
+        const { shops } = rankPlaces(createConfig({ priorWeight: 0 }), [shop('few', 4.5, 10), shop('many', 4.5, 900)]);
+
+        assert.deepEqual(
+            shops.map((item) => item.id),
+            ['many', 'few'],
+        );
+    });
+
+    test('所有店家都沒有評分時平均為 null', () => {
+        const { shops, summary } = rankPlaces(createConfig(undefined), [shop('a'), shop('b')]);
+
+        assert.deepEqual(summary, { meanRating: null, priorWeight: 100, rankedShops: 0 });
+        assert.ok(shops.every((item) => item.score === undefined));
+    });
+});
+
+describe('buildTopList', () => {
+    test('全市與各行政區排行榜只列出有分數的店家，且不超過名額', () => {
+        const config = createConfig({ priorWeight: 0, topCount: 2, districtTopCount: 1 });
+        const { shops, summary } = rankPlaces(config, [
+            shop('a', 4.9, 100, '大安區'),
+            shop('b', 4.7, 100, '大安區'),
+            shop('c', 4.8, 100, '信義區'),
+            shop('d', undefined, undefined, '中山區'),
+        ]);
+
+        const topList = buildTopList(config, shops, summary);
+
+        assert.deepEqual(
+            topList.top.map((item) => [item.rank, item.id]),
+            [
+                [1, 'a'],
+                [2, 'c'],
+            ],
+        );
+        assert.deepEqual(
+            Object.fromEntries(
+                Object.entries(topList.districts).map(([district, ranked]) => [
+                    district,
+                    ranked.map((item) => item.id),
+                ]),
+            ),
+            { 大安區: ['a'], 信義區: ['c'] },
+        );
+    });
+});
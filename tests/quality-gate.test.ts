@@ -0,0 +1,66 @@
+/**
+ * @fileoverview 品質門檻測試
+ *
+ * 驗證 {@link checkQualityGate} 何時放行新資料、何時要求保留前一版檔案。
+ */
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+
+import { checkQualityGate } from '../utils';
+
+describe('checkQualityGate', () => {
+    const minGate = { field: 'successCount', min: 9 };
+    const ratioGate = { field: 'totalShops', minRatioOfPrevious: 0.8 };
+
+    test('沒有前一版檔案時一律通過', () => {
+        assert.equal(checkQualityGate(minGate, { successCount: 0 }, null), null);
+        assert.equal(checkQualityGate(minGate, {}, undefined), null);
+    });
+
+    test('不少於前一版時即使低於最低值也通過', () => {
+        assert.equal(checkQualityGate(minGate, { successCount: 5 }, { successCount: 5 }), null);
+        assert.equal(checkQualityGate(minGate, { successCount: 6 }, { successCount: 5 }), null);
+    });
+
+    test('少於前一版且低於最低值時保留前一版', () => {
+        assert.equal(
+            checkQualityGate(minGate, { successCount: 8 }, { successCount: 12 }),
+            'successCount 為 8，低於門檻 9',
+        );
+        assert.equal(checkQualityGate(minGate, { successCount: 9 }, { successCount: 12 }), null);
+    });
+
+    test('低於前一版的比例時保留前一版，剛好達到比例時通過', () => {
+        assert.equal(
+            checkQualityGate(ratioGate, { totalShops: 399 }, { totalShops: 500 }),
+            'totalShops 由 500 降為 399，低於前一版的 80%',
+        );
+        assert.equal(checkQualityGate(ratioGate, { totalShops: 400 }, { totalShops: 500 }), null);
+    });
+
+    test('同時設定最低值與比例時兩者都要達到', () => {
+        const gate = { field: 'count', min: 10, minRatioOfPrevious: 0.5 };
+
+        assert.match(checkQualityGate(gate, { count: 9 }, { count: 12 })!, /低於門檻 10/);
+        assert.match(checkQualityGate(gate, { count: 40 }, { count: 100 })!, /低於前一版的 50%/);
+        assert.equal(checkQualityGate(gate, { count: 50 }, { count: 100 }), null);
+    });
+
+    test('無法讀取新資料的指標時保留前一版', () => {
+        assert.equal(
+            checkQualityGate(ratioGate, { totalShops: '500' }, { totalShops: 500 }),
+            '無法讀取品質指標 totalShops',
+        );
+        assert.equal(checkQualityGate(ratioGate, null, { totalShops: 500 }), '無法讀取品質指標 totalShops');
+    });
+
+    test('前一版缺少指標或為 0 時只檢查最低值', () => {
+        assert.equal(checkQualityGate(ratioGate, { totalShops: 1 }, { updated: '2026-10-01' }), null);
+        assert.equal(checkQualityGate(ratioGate, { totalShops: 0 }, { totalShops: 0 }), null);
+        assert.equal(
+            checkQualityGate({ ...ratioGate, min: 10 }, { totalShops: 3 }, {}),
+            'totalShops 為 3，低於門檻 10',
+        );
+    });
+});
@@ -44,6 +44,206 @@ export interface ScraperResult<T> {
     data: T;
 }
 
+// ============================================================================
+// HTTP 客戶端型別 (用於 utils/http.ts)
+// ============================================================================
+
+/** HTTP 請求失敗的類型 */
+export type HttpErrorKind = 'http' | 'timeout' | 'network' | 'invalid';
+
+/** HTTP 請求失敗的詳細資訊 */
+export interface HttpError {
+    /** 失敗類型 */
+    kind: HttpErrorKind;
+    /** 錯誤訊息 */
+    message: string;
+    /** HTTP 狀態碼（僅 kind 為 'http' 時） */
+    status?: number;
+    /** 是否可重試 */
+    retryable: boolean;
+}
+
+/**
+ * HTTP 請求結果。
+ *
+ * @template T - 回應資料的型別
+ */
+export type HttpResult<T> =
+    | { ok: true; status: number; data: T; attempts: number }
+    | { ok: false; error: HttpError; attempts: number };
+
+/** HTTP 客戶端的重試與逾時設定 */
+export interface HttpClientOptions {
+    /** 單次請求逾時（毫秒） */
+    timeout?: number;
+    /** 最多重試次數 */
+    maxRetries?: number;
+    /** 指數退避的基礎延遲（毫秒） */
+    baseDelay?: number;
+    /** 單次重試的最大延遲（毫秒） */
+    maxDelay?: number;
+    /** 附加的請求標頭 */
+    headers?: Record<string, string>;
+}
+
+/**
+ * 單次 HTTP 請求的設定。
+ *
+ * @template T - 回應資料的型別
+ */
+export interface HttpRequestOptions<T> extends HttpClientOptions {
+    /** 查詢參數 */
+    params?: Record<string, string | number>;
+    /** 請求主體（POST 時以 JSON 送出） */
+    body?: unknown;
+    /** 檢查回應內容，回傳錯誤訊息時視為可重試的失敗 */
+    validate?: (data: T) => string | null;
+    /** 每次發送請求前呼叫（含重試），參數為第幾次嘗試（從 1 開始）；可用來計算按次計費的用量 */
+    onAttempt?: (attempt: number) => void;
+}
+
+/** 共用預設設定的 HTTP 客戶端 */
+export interface HttpClient {
+    /** 發送 GET 請求 */
+    get: <T>(url: string, options?: HttpRequestOptions<T>) => Promise<HttpResult<T>>;
+    /** 發送 POST 請求，主體以 JSON 送出 */
+    post: <T>(url: string, options?: HttpRequestOptions<T>) => Promise<HttpResult<T>>;
+}
+
+// ============================================================================
+// HTTP 回放型別 (用於 utils/cassette.ts)
+// ============================================================================
+
+/** HTTP 模式：live 直接連線、record 連線並錄製、replay 只從錄製檔回放 */
+export type HttpMode = 'live' | 'record' | 'replay';
+
+/** 錄製檔中的請求（不含標頭，避免寫入 API Key） */
+export interface CassetteRequest {
+    method: 'GET' | 'POST';
+    url: string;
+    params?: Record<string, string | number>;
+    body?: unknown;
+}
+
+/** 錄製檔中的回應 */
+export interface CassetteResponse {
+    status: number;
+    headers: Record<string, string>;
+    data: unknown;
+}
+
+/** 一組請求與回應 */
+export interface CassetteInteraction {
+    request: CassetteRequest;
+    response: CassetteResponse;
+    /** 連續收到相同回應的次數，省略時為 1 */
+    times?: number;
+}
+
+/** 錄製檔結構 */
+export interface Cassette {
+    /** 錄製檔名稱（與爬蟲名稱相同） */
+    name: string;
+    /** 錄製時間（ISO 格式） */
+    recordedAt: string;
+    /** 依發生順序排列的請求與回應 */
+    interactions: CassetteInteraction[];
+}
+
+// ============================================================================
+// 資料驗證型別 (用於 utils/schema.ts)
+// ============================================================================
+
+/** 物件欄位的驗證規則 */
+export interface SchemaProperty {
+    /** 欄位的驗證規則 */
+    schema: SchemaNode;
+    /** 是否為選填欄位 */
+    optional: boolean;
+}
+
+/** 以純資料描述的驗證規則，可同時用於執行期驗證與產生 JSON Schema */
+export type SchemaNode =
+    | { type: 'string'; pattern?: string }
+    | { type: 'number'; integer?: boolean; minimum?: number }
+    | { type: 'boolean' }
+    | { type: 'null' }
+    | { type: 'unknown' }
+    | { type: 'array'; items: SchemaNode }
+    | { type: 'object'; properties: Record<string, SchemaProperty> }
+    | { type: 'record'; values: SchemaNode }
+    | { type: 'union'; options: SchemaNode[] };
+
+/**
+ * 帶有型別資訊的驗證規則。
+ *
+ * `__type` 只存在於型別層級，用來確保驗證規則與 TypeScript 介面完全一致。
+ *
+ * @template T - 驗證規則對應的資料型別
+ */
+export interface Schema<T> {
+    /** 驗證規則 */
+    readonly node: SchemaNode;
+    /** 僅供型別檢查使用 */
+    readonly __type?: (value: T) => T;
+}
+
+/** 對外公開的 JSON Schema 資訊 */
+export interface PublishedSchemaInfo {
+    /** 名稱，作為 `data/schemas/<name>.v<version>.json` 的檔名 */
+    name: string;
+    /** 版本，欄位或規則有任何變更時遞增 */
+    version: number;
+    /** 標題 */
+    title: string;
+    /** 說明 */
+    description: string;
+}
+
+/**
+ * 對外公開為 JSON Schema 的驗證規則。
+ *
+ * @template T - 驗證規則對應的資料型別
+ */
+export interface PublishedSchema<T> extends Schema<T> {
+    /** 公開資訊 */
+    readonly published: PublishedSchemaInfo;
+}
+
+/** JSON Schema (draft 2020-12) 文件中由驗證規則產生的部分 */
+export interface JsonSchema {
+    type?: 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'array' | 'object';
+    pattern?: string;
+    minimum?: number;
+    items?: JsonSchema;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: JsonSchema;
+    anyOf?: JsonSchema[];
+}
+
+/** 寫入 data/schemas/ 的 JSON Schema 文件 */
+export interface JsonSchemaDocument extends JsonSchema {
+    /** JSON Schema 規範版本 */
+    $schema: string;
+    /** 文件的公開網址 */
+    $id: string;
+    /** 標題 */
+    title: string;
+    /** 說明 */
+    description: string;
+    /** 結構版本 */
+    'x-version': number;
+}
+
+/** 單一欄位的驗證錯誤 */
+export interface ValidationIssue {
+    /** 欄位路徑，例如 `horoscopes.aries.data.all` */
+    path: string;
+    /** 錯誤說明 */
+    message: string;
+}
+
 // ============================================================================
 // 星座運勢相關型別
 // ============================================================================
@@ -81,8 +281,8 @@ export interface HoroscopeApiData {
     health?: string;
     /** 幸運顏色 */
     lucky_color?: string;
-    /** 幸運數字 */
-    lucky_number?: string;
+    /** 幸運數字（API 可能回傳字串或數字） */
+    lucky_number?: string | number;
     /** 幸運星座 */
     lucky_star?: string;
 }
@@ -107,6 +307,8 @@ export interface HoroscopeItem {
 
 /** 星座運勢的完整輸出結構 */
 export interface HoroscopeOutput {
+    /** JSON Schema 的網址 */
+    $schema: string;
     /** 更新時間（ISO 格式） */
     updated: string;
     /** 更新時間（台灣時區格式） */
@@ -127,6 +329,47 @@ export interface HoroscopeOutput {
     horoscopes: Record<string, HoroscopeItem>;
 }
 
+/** 星座運勢各項評分（百分比數值，無資料時為 null） */
+export interface HoroscopeScores {
+    all: number | null;
+    love: number | null;
+    work: number | null;
+    money: number | null;
+    health: number | null;
+}
+
+/** 星座運勢歷史的日期索引 */
+export interface HoroscopeHistoryIndex {
+    /** 更新時間（ISO 格式） */
+    updated: string;
+    /** 最新的日期 */
+    latest: string | null;
+    /** 所有可用的日期（由新到舊，格式為 YYYY-MM-DD） */
+    dates: string[];
+}
+
+/** 單一星座單日的評分紀錄 */
+export interface HoroscopeTrendEntry {
+    /** 日期（YYYY-MM-DD） */
+    date: string;
+    /** 各項評分 */
+    scores: HoroscopeScores;
+}
+
+/** 單一星座最近數日的評分趨勢 */
+export interface HoroscopeTrend {
+    /** 星座英文名稱 */
+    constellation: string;
+    /** 星座中文名稱 */
+    chineseName: string;
+    /** 更新時間（ISO 格式） */
+    updated: string;
+    /** 保留的天數上限 */
+    maxDays: number;
+    /** 每日評分（由舊到新） */
+    days: HoroscopeTrendEntry[];
+}
+
 // ============================================================================
 // 文案相關型別
 // ============================================================================
@@ -145,30 +388,36 @@ export interface CopywritingApiConfig {
 
 /** 單則文案 */
 export interface CopywritingItem {
-    /** 編號 */
-    id: number;
+    /** 以內容雜湊計算的穩定 ID，跨次執行不變 */
+    id: string;
     /** 文案內容 */
     content: string;
     /** 文案長度 */
     length: number;
-    /** 新增時間 */
+    /** 首次收錄時間 */
     addedAt: string;
 }
 
 /** 文案的完整輸出結構 */
 export interface CopywritingOutput {
+    /** JSON Schema 的網址 */
+    $schema: string;
     /** 文案類型 */
     type: string;
     /** 更新時間（ISO 格式） */
     updated: string;
     /** 更新時間（台灣時區格式） */
     updateTime: string;
-    /** 實際收集數量 */
+    /** 文案池目前數量 */
     totalCount: number;
-    /** 目標收集數量 */
+    /** 文案池上限 */
     targetCount: number;
-    /** 完成率 */
+    /** 完成率（目前數量 / 上限） */
     completionRate: string;
+    /** 本次新增數量 */
+    newCount: number;
+    /** 本次因超過上限而移除的數量 */
+    evictedCount: number;
     /** 是否已轉換為繁體 */
     convertedToTraditional: boolean;
     /** 文案列表 */
@@ -176,7 +425,7 @@ export interface CopywritingOutput {
 }
 
 // ============================================================================
-// 台北牛肉麵相關型別
+// 地點搜尋相關型別 (Google Places)
 // ============================================================================
 
 /** 座標 */
@@ -211,6 +460,8 @@ export interface PlaceResult {
     };
     /** 所屬行政區 */
     district?: string;
+    /** 行政區的判斷方式 */
+    districtSource?: DistrictSource;
 }
 
 /** Google Places 搜尋回應 */
@@ -223,8 +474,164 @@ export interface PlacesSearchResponse {
     error?: unknown;
 }
 
-/** 牛肉麵店家輸出的店家資料 */
-export interface BeefNoodleShop {
+/** 搜尋區域（城市） */
+export interface PlacesRegion {
+    /** 區域名稱，例如「台北市」 */
+    name: string;
+    /** 地址中可能出現的城市名稱（例如「台北市」與「臺北市」） */
+    cityNames: string[];
+    /** 搜尋範圍 */
+    bounds: {
+        northwest: Coordinates;
+        southeast: Coordinates;
+    };
+    /** 行政區列表 */
+    districts: string[];
+    /**
+     * `data/boundaries/` 下的行政區界 GeoJSON 檔名。
+     * 設定且檔案存在時以座標落在哪個行政區界內判斷行政區，否則以地址判斷。
+     */
+    boundaryFile?: string;
+}
+
+/** 地點搜尋設定，每個設定對應一個爬蟲與一個輸出檔案 */
+export interface PlacesHarvestConfig {
+    /** 爬蟲名稱，作為 CLI 的識別字與錄製檔名稱 */
+    name: string;
+    /** 爬蟲說明 */
+    description: string;
+    /** 搜尋關鍵字 */
+    keyword: string;
+    /** 搜尋區域 */
+    region: PlacesRegion;
+    /** 輸出檔案名稱 */
+    filename: string;
+    /** 初始網格大小（公里），預設 2.4；結果飽和的網格會再細分 */
+    gridSizeKm?: number;
+    /** 每個網格最多查詢的頁數（依 nextPageToken 翻頁），預設 1 即不翻頁 */
+    maxPagesPerCell?: number;
+    /** 單次執行的查詢預算，未指定的項目使用預設值 */
+    budget?: Partial<PlacesBudget>;
+    /** 排名設定，未指定的項目使用預設值 */
+    ranking?: Partial<PlacesRankingConfig>;
+}
+
+/** 地點排名設定 */
+export interface PlacesRankingConfig {
+    /**
+     * 貝氏平均的先驗權重，相當於每間店家預先加上幾則「全市平均評分」的評論。
+     * 數值越大，評論少的店家分數越接近全市平均。
+     */
+    priorWeight: number;
+    /** top.json 全市排行的店家數 */
+    topCount: number;
+    /** top.json 各行政區排行的店家數 */
+    districtTopCount: number;
+}
+
+/** 地點排名摘要 */
+export interface PlacesRankingSummary {
+    /** 全市平均評分（有評分店家的平均），沒有任何評分時為 null */
+    meanRating: number | null;
+    /** 貝氏平均的先驗權重 */
+    priorWeight: number;
+    /** 有分數的店家數 */
+    rankedShops: number;
+}
+
+/** Places API 查詢預算 */
+export interface PlacesBudget {
+    /** 最多查詢次數（每一頁算一次） */
+    maxQueries: number;
+    /** 預估費用上限（美元） */
+    maxCostUsd: number;
+    /** 每次查詢的預估費用（美元） */
+    costPerQueryUsd: number;
+}
+
+/** Places API 查詢預算的使用情形 */
+export interface PlacesBudgetUsage extends PlacesBudget {
+    /** 已使用的查詢次數（每次 HTTP 請求都計費，含重試） */
+    queriesUsed: number;
+    /** 預估已花費的費用（美元） */
+    estimatedCostUsd: number;
+    /** 是否因預算用完而提前停止 */
+    exhausted: boolean;
+    /** 因預算用完而未查詢的網格數 */
+    skippedCells: number;
+}
+
+/** 搜尋格（矩形範圍） */
+export interface GridCell {
+    /** 西北角座標 */
+    northwest: Coordinates;
+    /** 東南角座標 */
+    southeast: Coordinates;
+    /** 細分層數，初始網格為 0 */
+    depth: number;
+}
+
+/** 地點搜尋的覆蓋率統計 */
+export interface PlacesSearchStats {
+    /** 初始網格數 */
+    initialCells: number;
+    /** 實際查詢過的搜尋格數（含細分後的子格） */
+    cellsSearched: number;
+    /** 回傳結果達到上限的搜尋格數 */
+    saturatedCells: number;
+    /** 已達最小尺寸仍飽和、結果可能被截斷的搜尋格數 */
+    truncatedCells: number;
+    /** 查詢失敗的搜尋格數 */
+    failedCells: number;
+    /** Places API 查詢次數（含翻頁與重試） */
+    queryCount: number;
+    /** 最深的細分層數 */
+    maxDepth: number;
+}
+
+/** 行政區的判斷方式：座標落在行政區界內，或從地址解析 */
+export type DistrictSource = 'polygon' | 'address';
+
+/** 行政區界判斷與地址判斷不一致的店家 */
+export interface DistrictConflict {
+    /** 地點 ID */
+    id: string;
+    /** 店家名稱 */
+    name: string;
+    /** 格式化地址 */
+    formattedAddress: string;
+    /** 依行政區界判斷的行政區 */
+    polygonDistrict: string;
+    /** 依地址判斷的行政區 */
+    addressDistrict: string;
+}
+
+/** 行政區判斷摘要 */
+export interface DistrictAssignmentSummary {
+    /** 主要判斷方式，找不到行政區界檔案時為 address */
+    method: DistrictSource;
+    /** 以行政區界判斷的店家數 */
+    polygonMatches: number;
+    /** 座標不在任何行政區界內、改以地址判斷的店家數 */
+    addressFallbacks: number;
+    /** 兩種判斷結果不一致的店家（以行政區界為準） */
+    conflicts: DistrictConflict[];
+}
+
+/** 地點搜尋的原始結果 */
+export interface PlacesSearchResult {
+    /** 去重後的地點 */
+    places: PlaceResult[];
+    /** 覆蓋率統計 */
+    stats: PlacesSearchStats;
+    /** 行政區判斷摘要 */
+    districtAssignment: DistrictAssignmentSummary;
+    /** 查詢預算的使用情形 */
+    budgetUsage: PlacesBudgetUsage;
+}
+
+/** 地點搜尋輸出的店家資料 */
+export interface PlaceShop {
     /** 地點 ID */
     id: string;
     /** 店家名稱 */
@@ -242,14 +649,24 @@ export interface BeefNoodleShop {
     };
     /** 所屬行政區 */
     district?: string;
+    /** 行政區的判斷方式 */
+    districtSource?: DistrictSource;
+    /** 依評論數調整後的分數（貝氏平均），沒有評分的店家不提供 */
+    score?: number;
 }
 
-/** 台北牛肉麵的完整輸出結構 */
-export interface BeefNoodleOutput {
+/** 地點搜尋的完整輸出結構 */
+export interface PlacesOutput {
+    /** JSON Schema 的網址 */
+    $schema: string;
     /** 更新時間（ISO 格式） */
     updated: string;
     /** 更新時間（台灣時區格式） */
     updateTime: string;
+    /** 搜尋關鍵字 */
+    keyword: string;
+    /** 搜尋區域名稱 */
+    region: string;
     /** 店家總數 */
     totalShops: number;
     /** 處理時間（毫秒） */
@@ -258,14 +675,245 @@ export interface BeefNoodleOutput {
     searchArea: {
         northwest: Coordinates;
         southeast: Coordinates;
+        /** 初始網格大小（公里） */
         gridSizeKm: number;
+        /** 細分的最小網格大小（公里） */
+        minCellSizeKm: number;
+        /** 每個網格最多查詢的頁數 */
+        maxPagesPerCell: number;
     };
+    /** 覆蓋率統計 */
+    searchStats: PlacesSearchStats;
+    /** 查詢預算的使用情形 */
+    budgetUsage: PlacesBudgetUsage;
+    /** 行政區判斷摘要 */
+    districtAssignment: DistrictAssignmentSummary;
+    /** 排名摘要（shops 依分數由高到低排序） */
+    ranking: PlacesRankingSummary;
     /** 各區店家數量統計 */
     districtStats: Record<string, number>;
     /** 錯誤列表 */
     errors: string[];
     /** 店家列表 */
-    shops: BeefNoodleShop[];
+    shops: PlaceShop[];
+}
+
+/** 排行榜中的店家 */
+export interface RankedPlace {
+    /** 名次（從 1 開始） */
+    rank: number;
+    /** 地點 ID */
+    id: string;
+    /** 店家名稱 */
+    name: string;
+    /** 所屬行政區 */
+    district?: string;
+    /** 評分 */
+    rating: number;
+    /** 評論數量 */
+    userRatingCount: number;
+    /** 依評論數調整後的分數 */
+    score: number;
+}
+
+/** 地點排行榜 */
+export interface PlacesTopList {
+    /** 更新時間（ISO 格式） */
+    updated: string;
+    /** 搜尋關鍵字 */
+    keyword: string;
+    /** 搜尋區域名稱 */
+    region: string;
+    /** 排名摘要 */
+    ranking: PlacesRankingSummary;
+    /** 全市排行 */
+    top: RankedPlace[];
+    /** 各行政區排行 */
+    districts: Record<string, RankedPlace[]>;
+}
+
+/** 變更紀錄中的店家摘要 */
+export interface PlaceSummary {
+    /** 地點 ID */
+    id: string;
+    /** 店家名稱 */
+    name: string;
+    /** 所屬行政區 */
+    district?: string;
+    /** 評分 */
+    rating?: number;
+    /** 評論數量 */
+    userRatingCount?: number;
+}
+
+/** 評分或評論數的明顯變化 */
+export interface PlaceMetricChange {
+    /** 地點 ID */
+    id: string;
+    /** 店家名稱 */
+    name: string;
+    /** 變化的欄位 */
+    field: 'rating' | 'userRatingCount';
+    /** 前一版的值 */
+    before: number;
+    /** 本次的值 */
+    after: number;
+}
+
+/** 單次執行的變更紀錄 */
+export interface PlacesChangelogEntry {
+    /** 執行日期（YYYY-MM-DD，台灣時區） */
+    date: string;
+    /** 比較對象（前一版檔案）的更新時間，沒有前一版時為 null */
+    previousUpdated: string | null;
+    /** 本次搜尋是否完整（沒有失敗的網格且預算未用完）；不完整時消失的店家不累計為歇業 */
+    complete: boolean;
+    /** 本次店家總數 */
+    totalShops: number;
+    /** 新出現的店家 */
+    added: PlaceSummary[];
+    /** 前一版有、本次沒有的店家 */
+    removed: PlaceSummary[];
+    /** 曾經消失、本次再度出現的店家 */
+    reappeared: PlaceSummary[];
+    /** 本次達到連續消失門檻、疑似歇業的店家 */
+    suspectedClosed: PlaceSummary[];
+    /** 評分或評論數的明顯變化 */
+    metricChanges: PlaceMetricChange[];
+}
+
+/** 目前消失中的店家 */
+export interface PlacesMissingShop {
+    /** 店家摘要（消失前最後一次的資料） */
+    shop: PlaceSummary;
+    /** 開始消失的日期（YYYY-MM-DD） */
+    missingSince: string;
+    /** 連續消失的完整搜尋次數 */
+    missedRuns: number;
+}
+
+/** 地點搜尋的變更歷史 */
+export interface PlacesHistory {
+    /** 更新時間（ISO 格式） */
+    updated: string;
+    /** 搜尋關鍵字 */
+    keyword: string;
+    /** 搜尋區域名稱 */
+    region: string;
+    /** 保留的紀錄筆數上限 */
+    maxEntries: number;
+    /** 變更紀錄（由舊到新） */
+    entries: PlacesChangelogEntry[];
+    /** 目前消失中的店家 */
+    missing: PlacesMissingShop[];
+}
+
+/** 近期新出現的店家 */
+export interface NewPlace extends PlaceSummary {
+    /** 第一次出現的日期（YYYY-MM-DD） */
+    firstSeen: string;
+}
+
+/** 本週新店家清單 */
+export interface PlacesNewThisWeek {
+    /** 更新時間（ISO 格式） */
+    updated: string;
+    /** 搜尋關鍵字 */
+    keyword: string;
+    /** 搜尋區域名稱 */
+    region: string;
+    /** 起算日期（YYYY-MM-DD，含當天） */
+    since: string;
+    /** 新店家（依第一次出現的日期由新到舊） */
+    shops: NewPlace[];
+}
+
+/** 本次執行要寫出的變更資料 */
+export interface PlacesChangeUpdate {
+    /** 本次的變更紀錄 */
+    entry: PlacesChangelogEntry;
+    /** 更新後的歷史 */
+    history: Omit<PlacesHistory, 'updated'>;
+    /** 本週新店家清單 */
+    newThisWeek: Omit<PlacesNewThisWeek, 'updated'>;
+}
+
+/** 地點 GeoJSON Feature 的屬性（缺少的值為 null，讓各 Feature 的欄位一致） */
+export interface PlaceFeatureProperties {
+    /** 地點 ID */
+    id: string;
+    /** 店家名稱 */
+    name: string;
+    /** 評分 */
+    rating: number | null;
+    /** 評論數量 */
+    userRatingCount: number | null;
+    /** 依評論數調整後的分數 */
+    score: number | null;
+    /** 所屬行政區 */
+    district: string | null;
+    /** 格式化地址 */
+    formattedAddress: string;
+}
+
+/** 地點 GeoJSON Feature */
+export interface PlaceFeature {
+    type: 'Feature';
+    /** 地點 ID */
+    id: string;
+    geometry: {
+        type: 'Point';
+        /** [經度, 緯度] */
+        coordinates: number[];
+    };
+    properties: PlaceFeatureProperties;
+}
+
+/** 地點 GeoJSON FeatureCollection */
+export interface PlaceFeatureCollection {
+    type: 'FeatureCollection';
+    features: PlaceFeature[];
+}
+
+/** @deprecated 請改用 {@link PlaceShop} */
+export type BeefNoodleShop = PlaceShop;
+
+/** @deprecated 請改用 {@link PlacesOutput} */
+export type BeefNoodleOutput = PlacesOutput;
+
+// ============================================================================
+// 地理邊界相關型別 (GeoJSON)
+// ============================================================================
+
+/** GeoJSON 多邊形座標：第一個環為外框，其餘為內部的洞；每個點為 [經度, 緯度] */
+export type PolygonCoordinates = [number, number][][];
+
+/** GeoJSON 幾何（只支援行政區界會用到的多邊形） */
+export type BoundaryGeometry =
+    | { type: 'Polygon'; coordinates: PolygonCoordinates }
+    | { type: 'MultiPolygon'; coordinates: PolygonCoordinates[] };
+
+/** GeoJSON Feature */
+export interface BoundaryFeature {
+    type: 'Feature';
+    properties: Record<string, unknown> | null;
+    geometry: BoundaryGeometry | null;
+}
+
+/** GeoJSON FeatureCollection */
+export interface BoundaryFeatureCollection {
+    type: 'FeatureCollection';
+    features: BoundaryFeature[];
+}
+
+/** 已解析的行政區界 */
+export interface DistrictBoundary {
+    /** 行政區名稱 */
+    name: string;
+    /** 組成行政區的多邊形（離島等不相連的區域各為一個） */
+    polygons: PolygonCoordinates[];
+    /** 外接矩形 [最小經度, 最小緯度, 最大經度, 最大緯度]，用於快速排除 */
+    bbox: [number, number, number, number];
 }
 
 // ============================================================================
@@ -288,6 +936,239 @@ export interface ProcessedHoliday {
     description: string;
 }
 
+/** 連續放假的期間（例如春節連假） */
+export interface HolidayPeriod {
+    /** 期間名稱，取自期間內最主要的節日 */
+    name: string;
+    /** 開始日期（YYYYMMDD） */
+    startDate: string;
+    /** 結束日期（YYYYMMDD） */
+    endDate: string;
+    /** 連續放假天數 */
+    totalDays: number;
+    /** 期間內出現的所有節日說明 */
+    descriptions: string[];
+}
+
+/** 年度假日清單 */
+export interface HolidayListOutput {
+    /** 年份 */
+    year: number;
+    /** 有名稱的放假日（含補假） */
+    holidays: ProcessedHoliday[];
+    /** 補行上班日 */
+    makeupWorkdays: ProcessedHoliday[];
+    /** 連續放假期間 */
+    periods: HolidayPeriod[];
+}
+
+/** 單月的上班日統計 */
+export interface MonthlyCalendarStats {
+    /** 月份（01-12） */
+    month: string;
+    /** 當月天數 */
+    totalDays: number;
+    /** 上班日數 */
+    workdays: number;
+    /** 放假日數（含週末） */
+    daysOff: number;
+    /** 有名稱的放假日數 */
+    namedHolidays: number;
+}
+
+/** 年度上班日統計 */
+export interface CalendarStatsOutput {
+    /** 年份 */
+    year: number;
+    /** 全年上班日數 */
+    totalWorkdays: number;
+    /** 全年放假日數 */
+    totalDaysOff: number;
+    /** 各月統計 */
+    months: MonthlyCalendarStats[];
+}
+
+/** 近期假日 */
+export interface UpcomingHolidaysOutput {
+    /** 更新時間（ISO 格式） */
+    updated: string;
+    /** 計算基準日（YYYYMMDD，台灣時區） */
+    baseDate: string;
+    /** 下一個連續放假期間 */
+    next: HolidayPeriod | null;
+    /** 接下來的連續放假期間 */
+    periods: HolidayPeriod[];
+}
+
+/** iCalendar 全天事件 */
+export interface ICalendarEvent {
+    /** 穩定的事件識別碼，重新產生時維持不變以便訂閱端更新 */
+    uid: string;
+    /** 事件標題 */
+    summary: string;
+    /** 開始日期（YYYYMMDD） */
+    startDate: string;
+    /** 結束日期（YYYYMMDD，含當天） */
+    endDate: string;
+    /** 事件說明 */
+    description?: string;
+    /** 分類 */
+    categories?: string[];
+}
+
+/** 行事曆 CSV 的欄位位置，選填欄位不存在時為 null */
+export interface CalendarColumnLayout {
+    /** 西元日期 */
+    date: number;
+    /** 星期 */
+    week: number | null;
+    /** 是否放假 */
+    isHoliday: number;
+    /** 備註 */
+    description: number | null;
+}
+
+/** 單日單一欄位的變更 */
+export interface RawHolidayFieldChange {
+    date: string;
+    field: keyof RawHoliday;
+    before: string;
+    after: string;
+}
+
+/** 匯入前後原始資料的差異 */
+export interface RawHolidayDiff {
+    /** 新增的日期 */
+    added: string[];
+    /** 移除的日期 */
+    removed: string[];
+    /** 欄位變更 */
+    changed: RawHolidayFieldChange[];
+}
+
+/** 行事曆 CSV 匯入選項 */
+export interface CalendarImportOptions {
+    /** 只顯示差異，不寫入檔案 */
+    dryRun?: boolean;
+}
+
+/** 單一年度的匯入結果 */
+export interface CalendarImportYearResult {
+    year: string;
+    /** 匯入的天數 */
+    totalDays: number;
+    /** 與既有檔案的差異，檔案不存在時為 null */
+    diff: RawHolidayDiff | null;
+    /** 是否已寫入 */
+    written: boolean;
+}
+
+/** 行事曆資料檢查發現的問題 */
+export interface CalendarIssue {
+    /** 相關日期（YYYYMMDD），與特定日期無關時省略 */
+    date?: string;
+    /** 問題說明 */
+    message: string;
+}
+
+/** 單一年度行事曆資料的檢查結果 */
+export interface CalendarIntegrityReport {
+    /** 會讓轉換失敗的錯誤 */
+    errors: CalendarIssue[];
+    /** 需要人工確認的可疑資料 */
+    warnings: CalendarIssue[];
+}
+
+/** 台灣行事曆轉換結果 */
+export interface TwCalendarData {
+    /** 以檔案名稱為鍵的轉換後資料 */
+    years: Record<string, ProcessedHoliday[]>;
+    /** 跨年度計算的連續放假期間 */
+    periods: HolidayPeriod[];
+    /** 計算近期假日的基準日（YYYYMMDD） */
+    baseDate: string;
+}
+
+// ============================================================================
+// CSV 型別 (用於 utils/csv.ts)
+// ============================================================================
+
+/** 支援的文字編碼 */
+export type TextEncodingName = 'utf-8' | 'big5';
+
+/** CSV 欄位值，null 與 undefined 輸出為空欄位 */
+export type CsvValue = string | number | null | undefined;
+
+/** 解碼後的文字檔 */
+export interface DecodedText {
+    /** 文字內容（已移除 BOM） */
+    text: string;
+    /** 偵測到的編碼 */
+    encoding: TextEncodingName;
+}
+
+// ============================================================================
+// KML 型別 (用於 utils/kml.ts)
+// ============================================================================
+
+/** KML 地標 */
+export interface KmlPlacemark {
+    /** 地標名稱 */
+    name: string;
+    /** 說明 */
+    description?: string;
+    /** 座標 */
+    coordinates: Coordinates;
+    /** 額外欄位，Google My Maps 會顯示為資料表欄位；null 與 undefined 的欄位會略過 */
+    extendedData?: Record<string, string | number | null | undefined>;
+}
+
+// ============================================================================
+// 簡繁轉換型別 (用於 utils/chinese-converter.ts)
+// ============================================================================
+
+/**
+ * 簡繁轉換設定檔（來源皆為簡體中文）
+ *
+ * - `tw`: 台灣正體字形
+ * - `twp`: 台灣正體字形並轉換台灣慣用詞（例如「软件」轉為「軟體」）
+ * - `hk`: 香港繁體字形
+ */
+export type ChineseConversionProfile = 'tw' | 'twp' | 'hk';
+
+/** 爬蟲宣告的簡繁轉換需求 */
+export interface ChineseConversionConfig {
+    /** 轉換設定檔 */
+    profile: ChineseConversionProfile;
+    /** 要轉換的欄位名稱（任何層級），未指定時轉換所有字串值；物件的鍵一律不轉換 */
+    fields?: readonly string[];
+}
+
+// ============================================================================
+// 工作日計算型別 (用於 utils/business-days.ts)
+// ============================================================================
+
+/** 日期輸入：YYYYMMDD、YYYY-MM-DD 字串，或以台灣時區解讀的 Date */
+export type CalendarDateInput = string | Date;
+
+/** 以台灣行事曆資料計算工作日的日曆，所有回傳的日期皆為 YYYYMMDD */
+export interface BusinessCalendar {
+    /** 資料涵蓋的第一天 */
+    readonly firstDate: string;
+    /** 資料涵蓋的最後一天 */
+    readonly lastDate: string;
+    /** 是否為上班日（含補行上班的週末） */
+    isWorkday: (date: CalendarDateInput) => boolean;
+    /** 之後的第一個上班日（不含當天） */
+    nextWorkday: (date: CalendarDateInput) => string;
+    /** 之前的最後一個上班日（不含當天） */
+    previousWorkday: (date: CalendarDateInput) => string;
+    /** 往後（負數為往前）數 N 個上班日 */
+    addBusinessDays: (date: CalendarDateInput, amount: number) => string;
+    /** 兩日期之間的上班日數（不含開始日、含結束日），結束日較早時為負數 */
+    businessDaysBetween: (start: CalendarDateInput, end: CalendarDateInput) => number;
+}
+
 // ============================================================================
 // 星座運勢 API 內部型別 (用於 scripts/horoscope.ts)
 // ============================================================================
@@ -305,6 +1186,16 @@ export interface HoroscopeApiResponse {
     } & HoroscopeApiData;
 }
 
+/** 本次執行要更新的歷史資料（不含更新時間） */
+export interface HoroscopeHistoryUpdate {
+    /** 快照日期（YYYY-MM-DD，台灣時區） */
+    date: string;
+    /** 所有可用的日期（由新到舊） */
+    dates: string[];
+    /** 各星座的評分趨勢 */
+    trends: Record<string, Omit<HoroscopeTrend, 'updated'>>;
+}
+
 /** 標準化後的 API 回應 */
 export interface NormalizedApiResponse {
     ok: boolean;
@@ -323,3 +1214,297 @@ export interface TypeResult {
     success: boolean;
     count: number;
 }
+
+/** 單一類型的處理結果（含既有文案池與本次新收集的文案） */
+export interface CopywritingTypeResult extends TypeResult {
+    existing: CopywritingItem[];
+    texts: string[];
+}
+
+/** 單一類型合併後的文案池 */
+export interface CopywritingPoolResult {
+    success: boolean;
+    items: CopywritingItem[];
+    fetchedCount: number;
+    newCount: number;
+    evictedCount: number;
+}
+
+// ============================================================================
+// 資料清單型別 (用於 utils/manifest.ts)
+// ============================================================================
+
+/**
+ * 端點最後一次執行的狀態
+ *
+ * - `success`: 執行成功並寫出檔案
+ * - `held-back`: 未達品質門檻，保留前一版檔案
+ * - `failed`: 爬蟲執行失敗
+ */
+export type ManifestRunStatus = 'success' | 'held-back' | 'failed';
+
+/** 資料清單中的單一端點 */
+export interface ManifestEndpoint {
+    /** 相對於 data 的路徑 */
+    path: string;
+    /** 產生此檔案的爬蟲 */
+    scraper: string;
+    /** 爬蟲說明 */
+    description: string;
+    /** 資料來源說明 */
+    source: string;
+    /** 更新頻率 */
+    cadence: string;
+    /** 內容最後一次變更的時間（ISO 格式），內容未變時維持前一次的時間 */
+    updated: string | null;
+    /** 資料筆數，無法計算時為 null */
+    recordCount: number | null;
+    /** 檔案大小（位元組） */
+    bytes: number;
+    /** 檔案內容的 SHA-256 雜湊值 */
+    sha256: string;
+    /** JSON Schema 的網址，沒有公開結構時為 null */
+    schema: string | null;
+    /** 最後一次執行的時間（ISO 格式） */
+    lastRunAt: string;
+    /** 最後一次執行的狀態 */
+    lastRunStatus: ManifestRunStatus;
+}
+
+/** data/manifest.json 的結構 */
+export interface DataManifest {
+    /** 清單更新時間（ISO 格式） */
+    updated: string;
+    /** 端點總數 */
+    totalEndpoints: number;
+    /** 所有端點（依路徑排序） */
+    endpoints: ManifestEndpoint[];
+}
+
+/** 單次執行中單一輸出檔案的結果，用於更新資料清單 */
+export interface ManifestOutputResult {
+    /** 檔案路徑 */
+    filePath: string;
+    /** 資料筆數 */
+    recordCount: number | null;
+    /** JSON Schema 的網址 */
+    schema: string | null;
+    /** 是否已寫出（false 表示未達品質門檻而保留前一版） */
+    written: boolean;
+}
+
+// ============================================================================
+// 日誌型別 (用於 utils/logger.ts)
+// ============================================================================
+
+/** 日誌等級，由低到高 */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** 日誌輸出格式：`pretty` 為 emoji 前綴的文字，`json` 為每行一筆 JSON（JSON Lines） */
+export type LogFormat = 'pretty' | 'json';
+
+/** 單筆日誌 */
+export interface LogRecord {
+    /** 時間（ISO 格式） */
+    time: string;
+    /** 日誌等級 */
+    level: LogLevel;
+    /** 範圍（例如爬蟲名稱），根日誌為 undefined */
+    scope?: string;
+    /** 訊息內容 */
+    message: string;
+    /** 附加資料 */
+    data?: unknown;
+}
+
+/** 計時區段 */
+export interface LogSpan {
+    /** 範圍（例如爬蟲名稱），根日誌為 undefined */
+    scope?: string;
+    /** 區段名稱 */
+    label: string;
+    /** 開始時間（ISO 格式） */
+    startedAt: string;
+    /** 耗時（毫秒） */
+    durationMs: number;
+}
+
+/** 日誌工具 */
+export interface Logger {
+    /** 輸出除錯訊息 */
+    debug: (message: string, data?: unknown) => void;
+    /** 輸出一般資訊 */
+    info: (message: string, data?: unknown) => void;
+    /** 輸出成功訊息（等級為 info） */
+    success: (message: string, data?: unknown) => void;
+    /** 輸出警告訊息 */
+    warn: (message: string, data?: unknown) => void;
+    /** 輸出錯誤訊息 */
+    error: (message: string, data?: unknown) => void;
+    /** 輸出進度訊息（等級為 info） */
+    progress: (current: number, total: number, message?: string) => void;
+    /** 建立帶有範圍標記的子日誌，範圍會接在目前範圍之後 */
+    child: (scope: string) => Logger;
+    /** 開始計時，呼叫回傳的函數結束計時並返回耗時（毫秒） */
+    time: (label: string) => () => number;
+}
+
+/** 寫入 logs/ 的執行摘要 */
+export interface RunLogSummary {
+    /** 執行的指令與參數 */
+    command: string[];
+    /** 開始時間（ISO 格式） */
+    startedAt: string;
+    /** 結束時間（ISO 格式） */
+    finishedAt: string;
+    /** 總耗時（毫秒） */
+    durationMs: number;
+    /** 是否成功 */
+    success: boolean;
+    /** 各爬蟲的執行摘要 */
+    runs: ScraperRunSummary[];
+    /** 所有警告（不受 LOG_LEVEL 影響） */
+    warnings: LogRecord[];
+    /** 所有錯誤（不受 LOG_LEVEL 影響） */
+    errors: LogRecord[];
+    /** 所有計時區段 */
+    spans: LogSpan[];
+}
+
+// ============================================================================
+// 本機開發伺服器型別 (用於 scripts/dev-server.ts)
+// ============================================================================
+
+/** 本機開發伺服器選項 */
+export interface DevServerOptions {
+    /** 監聽的連接埠 */
+    port: number;
+    /** 提供的資料目錄 */
+    directory: string;
+}
+
+/** 查詢篩選的結果：篩選後的資料，或參數錯誤的說明 */
+export type QueryFilterResult = { ok: true; data: unknown } | { ok: false; error: string };
+
+/** 特定端點支援的查詢參數 */
+export interface QueryFilter {
+    /** 適用的檔案路徑（相對於資料目錄） */
+    pattern: RegExp;
+    /** 支援的查詢參數，網址中沒有任何一個時直接回傳原檔 */
+    params: readonly string[];
+    /**
+     * 依查詢參數篩選資料。
+     *
+     * @param data - 檔案內容
+     * @param query - 查詢參數
+     */
+    apply: (data: unknown, query: URLSearchParams) => QueryFilterResult;
+}
+
+// ============================================================================
+// 爬蟲框架型別 (用於 utils/scraper.ts)
+// ============================================================================
+
+/** 爬蟲執行期間的共用狀態 */
+export interface ScraperContext {
+    /** 開始執行的時間戳記（毫秒） */
+    startTime: number;
+    /** 執行過程中累積的錯誤訊息 */
+    errors: string[];
+    /** 以爬蟲名稱為範圍的日誌 */
+    logger: Logger;
+}
+
+/**
+ * 輸出檔案的品質門檻。
+ *
+ * 新資料未達門檻時保留前一版檔案，避免不完整的結果覆蓋正常資料。
+ */
+export interface QualityGate {
+    /** 用來衡量品質的數值欄位，例如 `successCount`；陣列可使用 `length` */
+    field: string;
+    /** 最低值 */
+    min?: number;
+    /** 相對於前一版的最低比例，例如 0.8 代表不得少於前一版的 80% */
+    minRatioOfPrevious?: number;
+}
+
+/** 爬蟲要寫出的單一輸出檔案 */
+export interface ScraperOutputFile {
+    /** 檔案名稱（可含子目錄） */
+    filename: string;
+    /** 要寫入的資料；format 為 'text' 時必須是字串 */
+    data: unknown;
+    /** 檔案格式，預設為 'json' */
+    format?: 'json' | 'text';
+    /** 寫入前用來驗證資料的規則；公開的規則會在 data/manifest.json 連結對應的 JSON Schema */
+    schema: Pick<Schema<unknown>, 'node'> & Partial<Pick<PublishedSchema<unknown>, 'published'>>;
+    /** 目標目錄，預設為 'data' */
+    directory?: string;
+    /** 品質門檻 */
+    qualityGate?: QualityGate;
+    /** 衍生來源的輸出檔名（可為多個）；任一來源未達品質門檻時，此檔案也保留前一版（來源須排在前面） */
+    derivedFrom?: string | readonly string[];
+    /** 資料筆數，未指定時陣列以長度計算，其他資料記為 null */
+    recordCount?: number;
+    /** 是否列入 data/manifest.json，預設為 true（例如每日快照已由索引列出時可設為 false） */
+    manifest?: boolean;
+}
+
+/**
+ * 爬蟲定義。
+ *
+ * @template TRaw - fetch 階段取得的原始資料型別
+ * @template TData - transform 後的資料型別
+ */
+export interface ScraperDefinition<TRaw, TData> {
+    /** 爬蟲名稱，作為 CLI 的識別字 */
+    name: string;
+    /** 爬蟲說明 */
+    description: string;
+    /** 資料來源說明，列於 data/manifest.json */
+    source: string;
+    /** 更新頻率，列於 data/manifest.json */
+    cadence: string;
+    /** 執行前的初始化（例如簡繁轉換器） */
+    setup?: () => Promise<void>;
+    /** 抓取原始資料 */
+    fetch: (context: ScraperContext) => Promise<TRaw>;
+    /** 將原始資料轉換為輸出資料 */
+    transform: (raw: TRaw, context: ScraperContext) => TData | Promise<TData>;
+    /** 根據抓取結果決定要寫出的檔案 */
+    outputs: (result: ScraperResult<TData>) => ScraperOutputFile[];
+    /** 檢查結果是否視為失敗，回傳失敗原因或 null */
+    verify?: (result: ScraperResult<TData>) => string | null;
+    /** 寫檔後輸出額外的統計資訊 */
+    report?: (result: ScraperResult<TData>, context: ScraperContext) => void;
+}
+
+/** 單次爬蟲執行的摘要 */
+export interface ScraperRunSummary {
+    /** 爬蟲名稱 */
+    name: string;
+    /** 是否成功 */
+    success: boolean;
+    /** 處理時間（毫秒） */
+    processingTimeMs: number;
+    /** 已寫出的檔案路徑 */
+    filePaths: string[];
+    /** 未達品質門檻而保留前一版的檔案說明 */
+    regressions: string[];
+    /** 錯誤列表 */
+    errors: string[];
+}
+
+/** 去除輸出時才填入的欄位（時間戳記、處理時間、錯誤、JSON Schema 網址）後的輸出資料 */
+export type ScraperPayload<T> = Omit<T, 'updated' | 'updateTime' | 'processingTimeMs' | 'errors' | '$schema'>;
+
+/** 已註冊的爬蟲 */
+export interface Scraper {
+    /** 爬蟲名稱 */
+    name: string;
+    /** 爬蟲說明 */
+    description: string;
+    /** 執行完整的爬蟲流程 */
+    run: () => Promise<ScraperRunSummary>;
+}
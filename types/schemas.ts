@@ -0,0 +1,479 @@
+/**
+ * @fileoverview 輸出資料的執行期驗證規則
+ *
+ * 對應 `types/index.ts` 中各輸出介面。每個規則都標註了對應的介面型別，
+ * 介面的欄位型別或必填性若與規則不一致，型別檢查就會失敗。
+ *
+ * 以 `publishSchema` 標記的規則會轉換為 JSON Schema 發布於 `data/schemas/`（見 {@link PUBLISHED_SCHEMAS}）。
+ * 修改這些規則時必須遞增版本號，否則 `generate-schemas` 指令會失敗。
+ */
+
+import { publishSchema } from '../utils/json-schema';
+import { schema } from '../utils/schema';
+import type {
+    CalendarStatsOutput,
+    CopywritingItem,
+    CopywritingOutput,
+    Coordinates,
+    DistrictAssignmentSummary,
+    DistrictConflict,
+    DistrictSource,
+    HolidayListOutput,
+    HolidayPeriod,
+    HoroscopeApiData,
+    HoroscopeHistoryIndex,
+    HoroscopeItem,
+    HoroscopeOutput,
+    HoroscopeScores,
+    HoroscopeTrend,
+    MonthlyCalendarStats,
+    PlaceFeatureCollection,
+    PlaceMetricChange,
+    PlaceShop,
+    PlacesChangelogEntry,
+    PlacesHistory,
+    PlacesNewThisWeek,
+    PlaceSummary,
+    PlacesBudgetUsage,
+    PlacesOutput,
+    PlacesRankingSummary,
+    PlacesTopList,
+    RankedPlace,
+    PlacesSearchStats,
+    ProcessedHoliday,
+    PublishedSchema,
+    Schema,
+    UpcomingHolidaysOutput,
+} from './index';
+
+// ============================================================================
+// 共用規則
+// ============================================================================
+
+/** ISO 8601 時間字串 */
+const isoDateTime = schema.string({ pattern: '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?Z$' });
+
+// ============================================================================
+// 星座運勢
+// ============================================================================
+
+/** 星座運勢 API 資料 */
+export const horoscopeApiDataSchema: Schema<HoroscopeApiData> = schema.object({
+    date: schema.optional(schema.string()),
+    notice: schema.optional(schema.string()),
+    all: schema.optional(schema.string()),
+    love: schema.optional(schema.string()),
+    work: schema.optional(schema.string()),
+    money: schema.optional(schema.string()),
+    health: schema.optional(schema.string()),
+    lucky_color: schema.optional(schema.string()),
+    lucky_number: schema.optional(schema.union(schema.string(), schema.number())),
+    lucky_star: schema.optional(schema.string()),
+});
+
+/** 單一星座運勢 */
+export const horoscopeItemSchema: Schema<HoroscopeItem> = schema.object({
+    constellation: schema.string(),
+    chineseName: schema.string(),
+    success: schema.boolean(),
+    code: schema.optional(schema.string()),
+    msg: schema.optional(schema.string()),
+    data: schema.nullable(horoscopeApiDataSchema),
+    error: schema.optional(schema.string()),
+});
+
+/** 星座運勢輸出 */
+export const horoscopeOutputSchema: PublishedSchema<HoroscopeOutput> = publishSchema(
+    { name: 'horoscope', version: 1, title: '星座運勢', description: '12 星座當日運勢（horoscope.json）' },
+    schema.object({
+        $schema: schema.string(),
+        updated: isoDateTime,
+        updateTime: schema.string(),
+        totalConstellations: schema.integer({ minimum: 0 }),
+        successCount: schema.integer({ minimum: 0 }),
+        failureCount: schema.integer({ minimum: 0 }),
+        processingTimeMs: schema.number({ minimum: 0 }),
+        convertedToTraditional: schema.boolean(),
+        errors: schema.array(schema.string()),
+        horoscopes: schema.record(horoscopeItemSchema),
+    }),
+);
+
+/** 日期字串（YYYY-MM-DD） */
+const isoDate = schema.string({ pattern: '^\\d{4}-\\d{2}-\\d{2}$' });
+
+/** 百分比評分 */
+const score = schema.nullable(schema.number({ minimum: 0 }));
+
+/** 星座運勢各項評分 */
+export const horoscopeScoresSchema: Schema<HoroscopeScores> = schema.object({
+    all: score,
+    love: score,
+    work: score,
+    money: score,
+    health: score,
+});
+
+/** 星座運勢歷史索引 */
+export const horoscopeHistoryIndexSchema: Schema<HoroscopeHistoryIndex> = schema.object({
+    updated: isoDateTime,
+    latest: schema.nullable(isoDate),
+    dates: schema.array(isoDate),
+});
+
+/** 單一星座評分趨勢 */
+export const horoscopeTrendSchema: Schema<HoroscopeTrend> = schema.object({
+    constellation: schema.string(),
+    chineseName: schema.string(),
+    updated: isoDateTime,
+    maxDays: schema.integer({ minimum: 1 }),
+    days: schema.array(
+        schema.object({
+            date: isoDate,
+            scores: horoscopeScoresSchema,
+        }),
+    ),
+});
+
+// ============================================================================
+// 文案
+// ============================================================================
+
+/** 單則文案 */
+export const copywritingItemSchema: Schema<CopywritingItem> = schema.object({
+    id: schema.string({ pattern: '^[0-9a-f]{12}$' }),
+    content: schema.string(),
+    length: schema.integer({ minimum: 0 }),
+    addedAt: isoDateTime,
+});
+
+/** 文案輸出 */
+export const copywritingOutputSchema: PublishedSchema<CopywritingOutput> = publishSchema(
+    { name: 'copywriting', version: 1, title: '文案', description: '各類型文案（例如 love-copywriting.json）' },
+    schema.object({
+        $schema: schema.string(),
+        type: schema.string(),
+        updated: isoDateTime,
+        updateTime: schema.string(),
+        totalCount: schema.integer({ minimum: 0 }),
+        targetCount: schema.integer({ minimum: 0 }),
+        completionRate: schema.string({ pattern: '^\\d+(\\.\\d+)?%$' }),
+        newCount: schema.integer({ minimum: 0 }),
+        evictedCount: schema.integer({ minimum: 0 }),
+        convertedToTraditional: schema.boolean(),
+        copywritings: schema.array(copywritingItemSchema),
+    }),
+);
+
+// ============================================================================
+// 地點搜尋
+// ============================================================================
+
+/** 座標 */
+export const coordinatesSchema: Schema<Coordinates> = schema.object({
+    lat: schema.number(),
+    lng: schema.number(),
+});
+
+/** 行政區判斷方式（字串規則無法表達字面值型別，以 pattern 限制後轉型） */
+const districtSourceSchema = schema.string({ pattern: '^(polygon|address)$' }) as Schema<DistrictSource>;
+
+/**
+ * 固定字串（例如 GeoJSON 的 type），同樣以 pattern 限制後轉型。
+ *
+ * @param value - 固定字串
+ * @returns 驗證規則
+ */
+const literal = <T extends string>(value: T): Schema<T> =>
+    schema.string({ pattern: `^${value}$` }) as unknown as Schema<T>;
+
+/** 店家資料 */
+export const placeShopSchema: Schema<PlaceShop> = schema.object({
+    id: schema.string(),
+    name: schema.string(),
+    rating: schema.optional(schema.number({ minimum: 0 })),
+    userRatingCount: schema.optional(schema.integer({ minimum: 0 })),
+    formattedAddress: schema.string(),
+    location: schema.object({
+        latitude: schema.number(),
+        longitude: schema.number(),
+    }),
+    district: schema.optional(schema.string()),
+    districtSource: schema.optional(districtSourceSchema),
+    score: schema.optional(schema.number({ minimum: 0 })),
+});
+
+/** 排名摘要 */
+export const placesRankingSummarySchema: Schema<PlacesRankingSummary> = schema.object({
+    meanRating: schema.nullable(schema.number({ minimum: 0 })),
+    priorWeight: schema.number({ minimum: 0 }),
+    rankedShops: schema.integer({ minimum: 0 }),
+});
+
+/** 行政區界與地址判斷不一致的店家 */
+export const districtConflictSchema: Schema<DistrictConflict> = schema.object({
+    id: schema.string(),
+    name: schema.string(),
+    formattedAddress: schema.string(),
+    polygonDistrict: schema.string(),
+    addressDistrict: schema.string(),
+});
+
+/** 行政區判斷摘要 */
+export const districtAssignmentSchema: Schema<DistrictAssignmentSummary> = schema.object({
+    method: districtSourceSchema,
+    polygonMatches: schema.integer({ minimum: 0 }),
+    addressFallbacks: schema.integer({ minimum: 0 }),
+    conflicts: schema.array(districtConflictSchema),
+});
+
+/** 地點搜尋覆蓋率統計 */
+export const placesSearchStatsSchema: Schema<PlacesSearchStats> = schema.object({
+    initialCells: schema.integer({ minimum: 0 }),
+    cellsSearched: schema.integer({ minimum: 0 }),
+    saturatedCells: schema.integer({ minimum: 0 }),
+    truncatedCells: schema.integer({ minimum: 0 }),
+    failedCells: schema.integer({ minimum: 0 }),
+    queryCount: schema.integer({ minimum: 0 }),
+    maxDepth: schema.integer({ minimum: 0 }),
+});
+
+/** 查詢預算的使用情形 */
+export const placesBudgetUsageSchema: Schema<PlacesBudgetUsage> = schema.object({
+    maxQueries: schema.integer({ minimum: 0 }),
+    maxCostUsd: schema.number({ minimum: 0 }),
+    costPerQueryUsd: schema.number({ minimum: 0 }),
+    queriesUsed: schema.integer({ minimum: 0 }),
+    estimatedCostUsd: schema.number({ minimum: 0 }),
+    exhausted: schema.boolean(),
+    skippedCells: schema.integer({ minimum: 0 }),
+});
+
+/** 地點搜尋輸出 */
+export const placesOutputSchema: PublishedSchema<PlacesOutput> = publishSchema(
+    { name: 'places', version: 1, title: '地點搜尋', description: '地點搜尋結果（例如 taipei-beef-noodles.json）' },
+    schema.object({
+        $schema: schema.string(),
+        updated: isoDateTime,
+        updateTime: schema.string(),
+        keyword: schema.string(),
+        region: schema.string(),
+        totalShops: schema.integer({ minimum: 0 }),
+        processingTimeMs: schema.number({ minimum: 0 }),
+        searchArea: schema.object({
+            northwest: coordinatesSchema,
+            southeast: coordinatesSchema,
+            gridSizeKm: schema.number({ minimum: 0 }),
+            minCellSizeKm: schema.number({ minimum: 0 }),
+            maxPagesPerCell: schema.integer({ minimum: 1 }),
+        }),
+        searchStats: placesSearchStatsSchema,
+        budgetUsage: placesBudgetUsageSchema,
+        districtAssignment: districtAssignmentSchema,
+        ranking: placesRankingSummarySchema,
+        districtStats: schema.record(schema.integer({ minimum: 0 })),
+        errors: schema.array(schema.string()),
+        shops: schema.array(placeShopSchema),
+    }),
+);
+
+/** 變更紀錄中的店家摘要 */
+export const placeSummarySchema: Schema<PlaceSummary> = schema.object({
+    id: schema.string(),
+    name: schema.string(),
+    district: schema.optional(schema.string()),
+    rating: schema.optional(schema.number({ minimum: 0 })),
+    userRatingCount: schema.optional(schema.integer({ minimum: 0 })),
+});
+
+/** 評分或評論數的明顯變化 */
+export const placeMetricChangeSchema: Schema<PlaceMetricChange> = schema.object({
+    id: schema.string(),
+    name: schema.string(),
+    field: schema.union(literal('rating'), literal('userRatingCount')),
+    before: schema.number({ minimum: 0 }),
+    after: schema.number({ minimum: 0 }),
+});
+
+/** 單次執行的變更紀錄 */
+export const placesChangelogEntrySchema: Schema<PlacesChangelogEntry> = schema.object({
+    date: isoDate,
+    previousUpdated: schema.nullable(isoDateTime),
+    complete: schema.boolean(),
+    totalShops: schema.integer({ minimum: 0 }),
+    added: schema.array(placeSummarySchema),
+    removed: schema.array(placeSummarySchema),
+    reappeared: schema.array(placeSummarySchema),
+    suspectedClosed: schema.array(placeSummarySchema),
+    metricChanges: schema.array(placeMetricChangeSchema),
+});
+
+/** 地點搜尋的變更歷史 */
+export const placesHistorySchema: Schema<PlacesHistory> = schema.object({
+    updated: isoDateTime,
+    keyword: schema.string(),
+    region: schema.string(),
+    maxEntries: schema.integer({ minimum: 1 }),
+    entries: schema.array(placesChangelogEntrySchema),
+    missing: schema.array(
+        schema.object({
+            shop: placeSummarySchema,
+            missingSince: isoDate,
+            missedRuns: schema.integer({ minimum: 0 }),
+        }),
+    ),
+});
+
+/** 本週新店家清單 */
+export const placesNewThisWeekSchema: Schema<PlacesNewThisWeek> = schema.object({
+    updated: isoDateTime,
+    keyword: schema.string(),
+    region: schema.string(),
+    since: isoDate,
+    shops: schema.array(
+        schema.object({
+            id: schema.string(),
+            name: schema.string(),
+            district: schema.optional(schema.string()),
+            rating: schema.optional(schema.number({ minimum: 0 })),
+            userRatingCount: schema.optional(schema.integer({ minimum: 0 })),
+            firstSeen: isoDate,
+        }),
+    ),
+});
+
+/** 排行榜中的店家 */
+const rankedPlaceSchema: Schema<RankedPlace> = schema.object({
+    rank: schema.integer({ minimum: 1 }),
+    id: schema.string(),
+    name: schema.string(),
+    district: schema.optional(schema.string()),
+    rating: schema.number({ minimum: 0 }),
+    userRatingCount: schema.integer({ minimum: 0 }),
+    score: schema.number({ minimum: 0 }),
+});
+
+/** 地點排行榜 */
+export const placesTopListSchema: Schema<PlacesTopList> = schema.object({
+    updated: isoDateTime,
+    keyword: schema.string(),
+    region: schema.string(),
+    ranking: placesRankingSummarySchema,
+    top: schema.array(rankedPlaceSchema),
+    districts: schema.record(schema.array(rankedPlaceSchema)),
+});
+
+/** 地點 GeoJSON（每間店家為一個 Point Feature） */
+export const placeFeatureCollectionSchema: Schema<PlaceFeatureCollection> = schema.object({
+    type: literal('FeatureCollection'),
+    features: schema.array(
+        schema.object({
+            type: literal('Feature'),
+            id: schema.string(),
+            geometry: schema.object({
+                type: literal('Point'),
+                coordinates: schema.array(schema.number()),
+            }),
+            properties: schema.object({
+                id: schema.string(),
+                name: schema.string(),
+                rating: schema.nullable(schema.number({ minimum: 0 })),
+                userRatingCount: schema.nullable(schema.integer({ minimum: 0 })),
+                score: schema.nullable(schema.number({ minimum: 0 })),
+                district: schema.nullable(schema.string()),
+                formattedAddress: schema.string(),
+            }),
+        }),
+    ),
+});
+
+/** 地點 CSV 文字內容（帶 BOM 的標題列開頭） */
+export const placesCsvSchema: Schema<string> = schema.string({ pattern: '^\\uFEFFid,name,[^\\r\\n]*\\r\\n' });
+
+/** KML 文字內容 */
+export const kmlSchema: Schema<string> = schema.string({ pattern: '^<\\?xml [^\\n]*\\n<kml [\\s\\S]*</kml>\\n$' });
+
+// ============================================================================
+// 台灣行事曆
+// ============================================================================
+
+/** 日期字串（YYYYMMDD） */
+const compactDate = schema.string({ pattern: '^\\d{8}$' });
+
+/** 轉換後的單日資料 */
+export const processedHolidaySchema: Schema<ProcessedHoliday> = schema.object({
+    date: compactDate,
+    week: schema.string({ pattern: '^[一二三四五六日]$' }),
+    isHoliday: schema.boolean(),
+    description: schema.string(),
+});
+
+/** 轉換後的年度資料 */
+export const processedHolidaysSchema: PublishedSchema<ProcessedHoliday[]> = publishSchema(
+    {
+        name: 'tw-calendar',
+        version: 1,
+        title: '台灣行事曆',
+        description: '轉換後的年度行事曆（tw-calendar/processed/<年份>.json）',
+    },
+    schema.array(processedHolidaySchema),
+);
+
+/** 連續放假期間 */
+export const holidayPeriodSchema: Schema<HolidayPeriod> = schema.object({
+    name: schema.string(),
+    startDate: compactDate,
+    endDate: compactDate,
+    totalDays: schema.integer({ minimum: 1 }),
+    descriptions: schema.array(schema.string()),
+});
+
+/** 年度假日清單 */
+export const holidayListOutputSchema: Schema<HolidayListOutput> = schema.object({
+    year: schema.integer(),
+    holidays: schema.array(processedHolidaySchema),
+    makeupWorkdays: schema.array(processedHolidaySchema),
+    periods: schema.array(holidayPeriodSchema),
+});
+
+/** 單月上班日統計 */
+export const monthlyCalendarStatsSchema: Schema<MonthlyCalendarStats> = schema.object({
+    month: schema.string({ pattern: '^(0[1-9]|1[0-2])$' }),
+    totalDays: schema.integer({ minimum: 0 }),
+    workdays: schema.integer({ minimum: 0 }),
+    daysOff: schema.integer({ minimum: 0 }),
+    namedHolidays: schema.integer({ minimum: 0 }),
+});
+
+/** 年度上班日統計 */
+export const calendarStatsOutputSchema: Schema<CalendarStatsOutput> = schema.object({
+    year: schema.integer(),
+    totalWorkdays: schema.integer({ minimum: 0 }),
+    totalDaysOff: schema.integer({ minimum: 0 }),
+    months: schema.array(monthlyCalendarStatsSchema),
+});
+
+/** 近期假日 */
+export const upcomingHolidaysOutputSchema: Schema<UpcomingHolidaysOutput> = schema.object({
+    updated: isoDateTime,
+    baseDate: compactDate,
+    next: schema.nullable(holidayPeriodSchema),
+    periods: schema.array(holidayPeriodSchema),
+});
+
+/** iCalendar 文字內容 */
+export const iCalendarSchema: Schema<string> = schema.string({
+    pattern: '^BEGIN:VCALENDAR\\r\\n[\\s\\S]*END:VCALENDAR\\r\\n$',
+});
+
+// ============================================================================
+// 公開的 JSON Schema
+// ============================================================================
+
+/** 發布於 data/schemas/ 的驗證規則 */
+export const PUBLISHED_SCHEMAS: readonly Pick<PublishedSchema<unknown>, 'node' | 'published'>[] = [
+    horoscopeOutputSchema,
+    copywritingOutputSchema,
+    placesOutputSchema,
+    processedHolidaysSchema,
+];
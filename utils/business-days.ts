@@ -0,0 +1,184 @@
+/**
+ * @fileoverview 工作日計算模組
+ *
+ * 以 `data/tw-calendar/processed/` 的台灣行事曆資料判斷上班日，
+ * 週末補行上班（`isHoliday: false` 的星期六）視為上班日，國定假日與補假視為放假。
+ * 資料範圍外的日期一律拋出 RangeError，不會以週一至週五推測。
+ *
+ * @example
+ * ```typescript
+ * const calendar = loadBusinessCalendar();
+ * calendar.isWorkday('2026-02-16'); // false（春節）
+ * calendar.addBusinessDays('20260213', 1); // '20260223'
+ * ```
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import type { BusinessCalendar, CalendarDateInput, ProcessedHoliday } from '../types';
+import { addDaysToCompactDate, parseCompactDate, toCompactDate } from './calendar';
+import { getTaiwanDateString } from './date';
+import { readJsonFile } from './file';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+/** 預設的行事曆資料目錄 */
+const PROCESSED_DIR = path.join(__dirname, '../data/tw-calendar/processed');
+
+/**
+ * 將日期輸入轉換為 YYYYMMDD。
+ *
+ * @param input - YYYYMMDD、YYYY-MM-DD 字串或 Date
+ * @returns 格式為 YYYYMMDD 的日期字串
+ * @throws 格式不正確或日期不存在（例如 2 月 30 日）時拋出錯誤
+ */
+const normalizeDate = (input: CalendarDateInput): string => {
+    if (input instanceof Date) {
+        if (Number.isNaN(input.getTime())) {
+            throw new Error('無效的日期物件');
+        }
+        return toCompactDate(getTaiwanDateString(input));
+    }
+
+    const compact = /^\d{4}-\d{2}-\d{2}$/.test(input) ? toCompactDate(input) : input;
+    if (!/^\d{8}$/.test(compact) || toCompactDate(parseCompactDate(compact)) !== compact) {
+        throw new Error(`無效的日期: "${input}"，應為 YYYYMMDD 或 YYYY-MM-DD`);
+    }
+    return compact;
+};
+
+/**
+ * 以每日資料建立工作日日曆。
+ *
+ * @param days - 每日資料，可為多個年度合併且不需排序，但日期必須連續
+ * @returns 工作日日曆
+ * @throws 資料為空、日期重複或中間有缺漏時拋出錯誤
+ *
+ * @example
+ * ```typescript
+ * const calendar = createBusinessCalendar([...days2025, ...days2026]);
+ * calendar.businessDaysBetween('20260101', '20260131'); // 1 月 2 日到 31 日之間的上班日數
+ * ```
+ */
+export const createBusinessCalendar = (days: ProcessedHoliday[]): BusinessCalendar => {
+    if (days.length === 0) {
+        throw new Error('行事曆資料為空');
+    }
+
+    const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+    const indexByDate = new Map<string, number>();
+    const workdays = sorted.map((day) => !day.isHoliday);
+
+    sorted.forEach((day, index) => {
+        if (index > 0) {
+            const expected = addDaysToCompactDate(sorted[index - 1].date, 1);
+            if (day.date !== expected) {
+                throw new Error(`行事曆資料不連續: ${sorted[index - 1].date} 之後應為 ${expected}，實際為 ${day.date}`);
+            }
+        }
+        indexByDate.set(day.date, index);
+    });
+
+    const firstDate = sorted[0].date;
+    const lastDate = sorted[sorted.length - 1].date;
+    const range = `${firstDate}-${lastDate}`;
+
+    /**
+     * 取得日期在資料中的位置。
+     *
+     * @param input - 日期輸入
+     * @returns 資料索引
+     * @throws 日期超出資料範圍時拋出 RangeError
+     */
+    const resolveIndex = (input: CalendarDateInput): number => {
+        const date = normalizeDate(input);
+        const index = indexByDate.get(date);
+        if (index === undefined) {
+            throw new RangeError(`日期 ${date} 超出行事曆資料範圍 (${range})`);
+        }
+        return index;
+    };
+
+    /**
+     * 從指定位置往前或往後找到下一個上班日。
+     *
+     * @param index - 起始位置（不含）
+     * @param direction - 1 為往後、-1 為往前
+     * @returns 上班日的位置
+     * @throws 在資料範圍內找不到上班日時拋出 RangeError
+     */
+    const stepToWorkday = (index: number, direction: 1 | -1): number => {
+        let cursor = index + direction;
+        while (cursor >= 0 && cursor < sorted.length && !workdays[cursor]) {
+            cursor += direction;
+        }
+        if (cursor < 0 || cursor >= sorted.length) {
+            const label = direction === 1 ? '之後' : '之前';
+            throw new RangeError(`${sorted[index].date} ${label}的上班日超出行事曆資料範圍 (${range})`);
+        }
+        return cursor;
+    };
+
+    /**
+     * 計算區間 (from, to] 內的上班日數。
+     *
+     * @param from - 起始位置（不含）
+     * @param to - 結束位置（含）
+     * @returns 上班日數
+     */
+    const countWorkdays = (from: number, to: number): number => {
+        let count = 0;
+        for (let cursor = from + 1; cursor <= to; cursor++) {
+            if (workdays[cursor]) count++;
+        }
+        return count;
+    };
+
+    return {
+        firstDate,
+        lastDate,
+
+        isWorkday: (date) => workdays[resolveIndex(date)],
+
+        nextWorkday: (date) => sorted[stepToWorkday(resolveIndex(date), 1)].date,
+
+        previousWorkday: (date) => sorted[stepToWorkday(resolveIndex(date), -1)].date,
+
+        addBusinessDays: (date, amount) => {
+            if (!Number.isInteger(amount)) {
+                throw new Error(`上班日數必須為整數: ${amount}`);
+            }
+            const direction = amount >= 0 ? 1 : -1;
+            let index = resolveIndex(date);
+            for (let step = 0; step < Math.abs(amount); step++) {
+                index = stepToWorkday(index, direction);
+            }
+            return sorted[index].date;
+        },
+
+        businessDaysBetween: (start, end) => {
+            const startIndex = resolveIndex(start);
+            const endIndex = resolveIndex(end);
+            return startIndex <= endIndex
+                ? countWorkdays(startIndex, endIndex)
+                : -countWorkdays(endIndex, startIndex);
+        },
+    };
+};
+
+/**
+ * 讀取所有年度的行事曆資料並建立工作日日曆。
+ *
+ * @param directory - 已轉換資料的目錄，預設為 data/tw-calendar/processed
+ * @returns 工作日日曆
+ * @throws 目錄不存在、沒有資料或資料不連續時拋出錯誤
+ */
+export const loadBusinessCalendar = (directory: string = PROCESSED_DIR): BusinessCalendar => {
+    const days = fs
+        .readdirSync(directory)
+        .filter((file) => /^\d{4}\.json$/.test(file))
+        .flatMap((file) => readJsonFile<ProcessedHoliday[]>(file, directory));
+    return createBusinessCalendar(days);
+};
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview 行事曆資料完整性檢查模組
+ *
+ * 檢查 `data/tw-calendar/raw/<year>.json` 是否每天恰好一筆、依日期排序、
+ * 星期與日期相符且放假代碼正確。這些屬於錯誤，會讓轉換失敗；
+ * 沒有備註的週末補班與平日放假則列為警告，交由人工確認。
+ */
+
+import type { CalendarIntegrityReport, CalendarIssue, RawHoliday } from '../types';
+import { addDaysToCompactDate, getChineseWeekday, parseCompactDate, toCompactDate } from './calendar';
+
+/** 允許的是否放假代碼："2" 放假、"0" 上班 */
+const VALID_HOLIDAY_CODES = new Set(['0', '2']);
+
+/** 週末的中文星期 */
+const WEEKEND = new Set(['六', '日']);
+
+/**
+ * 判斷是否為存在的 YYYYMMDD 日期。
+ *
+ * @param date - 日期字串
+ * @returns 有效返回 true
+ */
+const isValidCompactDate = (date: unknown): date is string => {
+    return typeof date === 'string' && /^\d{8}$/.test(date) && toCompactDate(parseCompactDate(date)) === date;
+};
+
+/**
+ * 找出年度中缺少的日期，連續缺少的日期合併為一個問題。
+ *
+ * @param year - 年份
+ * @param present - 資料中出現過的日期
+ * @returns 缺少日期的問題列表
+ */
+const findMissingDates = (year: number, present: Set<string>): CalendarIssue[] => {
+    const issues: CalendarIssue[] = [];
+    const lastDate = `${year}1231`;
+    let rangeStart: string | null = null;
+    let previous = '';
+
+    const closeRange = (): void => {
+        if (rangeStart) {
+            const range = rangeStart === previous ? rangeStart : `${rangeStart}-${previous}`;
+            issues.push({ message: `缺少日期 ${range}` });
+            rangeStart = null;
+        }
+    };
+
+    for (let date = `${year}0101`; date <= lastDate; date = addDaysToCompactDate(date, 1)) {
+        if (present.has(date)) {
+            closeRange();
+        } else {
+            rangeStart ??= date;
+        }
+        previous = date;
+    }
+    closeRange();
+
+    return issues;
+};
+
+/**
+ * 檢查單一年度的原始行事曆資料。
+ *
+ * 錯誤：日期格式錯誤或不屬於該年度、日期重複、未依日期排序、缺少日期、
+ * 星期與日期不符、是否放假代碼不是 "0" 或 "2"。
+ *
+ * 警告：週末補行上班卻沒有備註、平日放假卻沒有備註（一般週末放假本來就沒有備註，不列入）。
+ *
+ * @param year - 年份
+ * @param entries - 原始資料
+ * @returns 檢查結果
+ *
+ * @example
+ * ```typescript
+ * const report = checkRawCalendar(2026, readJsonFile<RawHoliday[]>('2026.json', RAW_DIR));
+ * if (report.errors.length > 0) {
+ *     console.log(formatCalendarIssues(report.errors));
+ * }
+ * ```
+ */
+export const checkRawCalendar = (year: number, entries: RawHoliday[]): CalendarIntegrityReport => {
+    const errors: CalendarIssue[] = [];
+    const warnings: CalendarIssue[] = [];
+    const present = new Set<string>();
+    let previousDate = '';
+
+    entries.forEach((entry, index) => {
+        const date = entry.西元日期;
+        if (!isValidCompactDate(date)) {
+            errors.push({ message: `第 ${index + 1} 筆的日期格式錯誤: "${date}"` });
+            return;
+        }
+        if (!date.startsWith(String(year))) {
+            errors.push({ date, message: `不屬於 ${year} 年` });
+            return;
+        }
+
+        if (present.has(date)) {
+            errors.push({ date, message: '日期重複' });
+        } else if (date < previousDate) {
+            errors.push({ date, message: `未依日期排序（前一筆為 ${previousDate}）` });
+        }
+        present.add(date);
+        previousDate = date;
+
+        const weekday = getChineseWeekday(date);
+        if (entry.星期 !== weekday) {
+            errors.push({ date, message: `星期應為「${weekday}」，實際為「${entry.星期}」` });
+        }
+
+        if (!VALID_HOLIDAY_CODES.has(entry.是否放假)) {
+            errors.push({ date, message: `是否放假代碼應為 "0" 或 "2"，實際為 "${entry.是否放假}"` });
+            return;
+        }
+
+        const isWeekend = WEEKEND.has(weekday);
+        if (isWeekend && entry.是否放假 === '0' && !entry.備註) {
+            warnings.push({ date, message: '週末補行上班但沒有備註' });
+        } else if (!isWeekend && entry.是否放假 === '2' && !entry.備註) {
+            warnings.push({ date, message: '平日放假但沒有備註' });
+        }
+    });
+
+    errors.push(...findMissingDates(year, present));
+
+    return { errors, warnings };
+};
+
+/**
+ * 將檢查問題格式化為多行文字。
+ *
+ * @param issues - 問題列表
+ * @param limit - 最多列出的筆數
+ * @returns 報告文字
+ */
+export const formatCalendarIssues = (issues: CalendarIssue[], limit = 20): string => {
+    const lines = issues
+        .slice(0, limit)
+        .map((issue) => (issue.date ? `  - ${issue.date}: ${issue.message}` : `  - ${issue.message}`));
+    if (issues.length > limit) {
+        lines.push(`  ...以及其他 ${issues.length - limit} 個問題`);
+    }
+    return lines.join('\n');
+};
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview 行事曆工具模組
+ *
+ * 提供 YYYYMMDD 日期字串的轉換，以及將連續放假日分組為假期的共用函數。
+ */
+
+import type { HolidayPeriod, ProcessedHoliday } from '../types';
+
+/** 不作為假期名稱的通用說明 */
+const GENERIC_DESCRIPTIONS = new Set(['補假', '調整放假', '放假']);
+
+/** 一天的毫秒數 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 星期（從星期日開始） */
+const WEEKDAYS = ['日', '一', '二', '三', '四', '五', '六'] as const;
+
+/**
+ * 將 YYYYMMDD 日期字串解析為 UTC 午夜的 Date。
+ *
+ * @param compact - 格式為 YYYYMMDD 的日期字串
+ * @returns 對應的 Date 物件
+ * @throws 格式不正確時拋出錯誤
+ */
+export const parseCompactDate = (compact: string): Date => {
+    const match = /^(\d{4})(\d{2})(\d{2})$/.exec(compact);
+    if (!match) {
+        throw new Error(`日期格式應為 YYYYMMDD: "${compact}"`);
+    }
+    return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+};
+
+/**
+ * 將 Date（以 UTC 日期為準）或 YYYY-MM-DD 字串轉換為 YYYYMMDD。
+ *
+ * @param date - Date 物件或 YYYY-MM-DD 字串
+ * @returns 格式為 YYYYMMDD 的日期字串
+ *
+ * @example
+ * ```typescript
+ * toCompactDate('2026-02-16'); // '20260216'
+ * ```
+ */
+export const toCompactDate = (date: Date | string): string => {
+    const iso = typeof date === 'string' ? date : date.toISOString().slice(0, 10);
+    return iso.replace(/-/g, '');
+};
+
+/**
+ * 計算 YYYYMMDD 日期加減天數後的日期。
+ *
+ * @param compact - 格式為 YYYYMMDD 的日期字串
+ * @param days - 要加上的天數，可為負數
+ * @returns 格式為 YYYYMMDD 的日期字串
+ */
+export const addDaysToCompactDate = (compact: string, days: number): string => {
+    return toCompactDate(new Date(parseCompactDate(compact).getTime() + days * DAY_MS));
+};
+
+/**
+ * 取得 YYYYMMDD 日期的中文星期。
+ *
+ * @param compact - 格式為 YYYYMMDD 的日期字串
+ * @returns 中文星期（日、一 ... 六）
+ *
+ * @example
+ * ```typescript
+ * getChineseWeekday('20260101'); // '四'
+ * ```
+ */
+export const getChineseWeekday = (compact: string): string => {
+    return WEEKDAYS[parseCompactDate(compact).getUTCDay()];
+};
+
+/**
+ * 決定假期名稱：取出現最多次的節日，補假等通用說明不列入；
+ * 次數相同時依出現順序以「、」串接。
+ *
+ * @param descriptions - 期間內每日的說明（已去除空字串）
+ * @returns 假期名稱
+ */
+const resolvePeriodName = (descriptions: string[]): string => {
+    const named = descriptions.filter((description) => !GENERIC_DESCRIPTIONS.has(description));
+    const candidates = named.length > 0 ? named : descriptions;
+
+    const counts = new Map<string, number>();
+    for (const description of candidates) {
+        counts.set(description, (counts.get(description) ?? 0) + 1);
+    }
+    const maxCount = Math.max(...counts.values());
+
+    return [...counts.entries()]
+        .filter(([, count]) => count === maxCount)
+        .map(([description]) => description)
+        .join('、');
+};
+
+/**
+ * 將連續放假日分組為假期。
+ *
+ * 連續的放假日（含週末）中只要有一天帶有節日說明，就視為一個假期；
+ * 只有週末的連續放假日不列入。輸入可跨年度，但須依日期排序。
+ *
+ * @param days - 依日期排序的每日資料
+ * @returns 依開始日期排序的假期列表
+ *
+ * @example
+ * ```typescript
+ * const periods = groupHolidayPeriods([...days2025, ...days2026]);
+ * // [{ name: '春節', startDate: '20260214', endDate: '20260222', totalDays: 9, ... }, ...]
+ * ```
+ */
+export const groupHolidayPeriods = (days: ProcessedHoliday[]): HolidayPeriod[] => {
+    const periods: HolidayPeriod[] = [];
+    let run: ProcessedHoliday[] = [];
+
+    const flush = (): void => {
+        const descriptions = run.map((day) => day.description).filter(Boolean);
+        if (descriptions.length > 0) {
+            periods.push({
+                name: resolvePeriodName(descriptions),
+                startDate: run[0].date,
+                endDate: run[run.length - 1].date,
+                totalDays: run.length,
+                descriptions: [...new Set(descriptions)],
+            });
+        }
+        run = [];
+    };
+
+    for (const day of days) {
+        const previous = run[run.length - 1];
+        if (!day.isHoliday || (previous && addDaysToCompactDate(previous.date, 1) !== day.date)) {
+            flush();
+        }
+        if (day.isHoliday) {
+            run.push(day);
+        }
+    }
+    flush();
+
+    return periods;
+};
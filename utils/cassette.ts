@@ -0,0 +1,155 @@
+/**
+ * @fileoverview HTTP 錄製與回放模組
+ *
+ * 透過環境變數 `JSON_GATHER_HTTP` 切換 HTTP 模式：
+ * - `live`（預設）：直接連線
+ * - `record`：連線並將每次請求與回應錄製到 `fixtures/cassettes/<爬蟲名稱>.json`
+ * - `replay`：不連線，依序從錄製檔回放回應
+ *
+ * 所有經由 {@link createHttpClient} 發出的請求都會經過此模組。
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import type { Cassette, CassetteInteraction, CassetteRequest, CassetteResponse, HttpMode } from '../types';
+import { readJsonFile, writeJsonFile } from './file';
+
+/** 錄製檔目錄 */
+const CASSETTE_DIRECTORY = path.join('fixtures', 'cassettes');
+
+/** 目前使用中的錄製檔 */
+let activeCassette: Cassette | null = null;
+
+/** 回放時每個請求鍵已使用到的位置 */
+const replayCursors = new Map<string, number>();
+
+/**
+ * 取得目前的 HTTP 模式。
+ *
+ * @returns HTTP 模式
+ */
+export const getHttpMode = (): HttpMode => {
+    const mode = process.env.JSON_GATHER_HTTP;
+    return mode === 'record' || mode === 'replay' ? mode : 'live';
+};
+
+/**
+ * 是否處於回放模式。
+ *
+ * @returns 回放模式返回 true
+ */
+export const isReplayMode = (): boolean => getHttpMode() === 'replay';
+
+/**
+ * 產生請求的比對鍵，查詢參數依鍵名排序以確保穩定。
+ *
+ * @param request - 請求資料
+ * @returns 比對鍵
+ */
+const getRequestKey = (request: CassetteRequest): string => {
+    const params = Object.entries(request.params ?? {}).sort(([a], [b]) => a.localeCompare(b));
+    return JSON.stringify([request.method, request.url, params, request.body ?? null]);
+};
+
+/**
+ * 開始使用指定名稱的錄製檔。
+ *
+ * 回放模式下會載入既有的錄製檔；錄製模式下會建立空白錄製檔；
+ * live 模式則不做任何事。
+ *
+ * @param name - 錄製檔名稱（通常為爬蟲名稱）
+ * @throws 回放模式下找不到錄製檔時拋出錯誤
+ */
+export const startCassette = (name: string): void => {
+    replayCursors.clear();
+    activeCassette = null;
+
+    const mode = getHttpMode();
+
+    if (mode === 'replay') {
+        const filename = `${name}.json`;
+        if (!fs.existsSync(path.join(CASSETTE_DIRECTORY, filename))) {
+            throw new Error(`找不到錄製檔: ${path.join(CASSETTE_DIRECTORY, filename)}`);
+        }
+        activeCassette = readJsonFile<Cassette>(filename, CASSETTE_DIRECTORY);
+    } else if (mode === 'record') {
+        activeCassette = { name, recordedAt: new Date().toISOString(), interactions: [] };
+    }
+};
+
+/**
+ * 儲存錄製中的錄製檔。
+ *
+ * @returns 錄製檔路徑；非錄製模式或沒有任何請求時返回 null
+ */
+export const saveCassette = (): string | null => {
+    if (getHttpMode() !== 'record' || !activeCassette || activeCassette.interactions.length === 0) {
+        return null;
+    }
+    return writeJsonFile(`${activeCassette.name}.json`, activeCassette, CASSETTE_DIRECTORY);
+};
+
+/**
+ * 取得作為「現在」的參考時間。
+ *
+ * 回放模式下返回錄製時間，讓依日期判斷的邏輯與錄製當時一致。
+ *
+ * @returns 參考時間
+ */
+export const getReferenceDate = (): Date => {
+    if (isReplayMode() && activeCassette) {
+        return new Date(activeCassette.recordedAt);
+    }
+    return new Date();
+};
+
+/**
+ * 記錄一組請求與回應。
+ *
+ * 以複本保存，避免爬蟲之後修改回應物件時改動錄製內容；
+ * 與上一組完全相同時（例如持續失敗的隨機 API）只累加次數。
+ *
+ * @param request - 請求資料
+ * @param response - 回應資料
+ */
+export const recordInteraction = (request: CassetteRequest, response: CassetteResponse): void => {
+    if (getHttpMode() !== 'record' || !activeCassette) {
+        return;
+    }
+
+    const interaction: CassetteInteraction = structuredClone({ request, response });
+    const previous = activeCassette.interactions[activeCassette.interactions.length - 1];
+    if (
+        previous &&
+        getRequestKey(previous.request) === getRequestKey(request) &&
+        JSON.stringify(previous.response) === JSON.stringify(interaction.response)
+    ) {
+        previous.times = (previous.times ?? 1) + 1;
+        return;
+    }
+    activeCassette.interactions.push(interaction);
+};
+
+/**
+ * 依序取出下一個符合請求的錄製回應。
+ *
+ * 相同請求出現多次時（例如隨機文案 API），會依錄製順序逐一回放。
+ *
+ * @param request - 請求資料
+ * @returns 錄製的回應，已用完或找不到時返回 null
+ */
+export const takeReplayResponse = (request: CassetteRequest): CassetteResponse | null => {
+    const key = getRequestKey(request);
+    const matches = (activeCassette?.interactions ?? [])
+        .filter((interaction) => getRequestKey(interaction.request) === key)
+        .flatMap((interaction) => Array<CassetteInteraction>(interaction.times ?? 1).fill(interaction));
+    const cursor = replayCursors.get(key) ?? 0;
+
+    if (cursor >= matches.length) {
+        return null;
+    }
+
+    replayCursors.set(key, cursor + 1);
+    return matches[cursor].response;
+};
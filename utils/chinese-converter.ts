@@ -1,38 +1,61 @@
 /**
  * @fileoverview 簡繁中文轉換工具模組
  *
- * 封裝 opencc-js 函式庫，提供簡體中文轉繁體中文（台灣）的功能。
- * 使用單例模式管理轉換器實例。
+ * 封裝 opencc-js 函式庫，依轉換設定檔將簡體中文轉換為台灣或香港繁體中文。
+ * 每個設定檔的轉換器只建立一次，由各爬蟲在 setup 階段初始化所需的設定檔。
+ * 轉換結果會快取，大量字串以分隔字元串接後批次轉換，減少呼叫轉換器的次數。
  */
 
-import { Converter } from 'opencc-js';
+import { Converter, type ConverterOptions } from 'opencc-js';
+import type { ChineseConversionConfig, ChineseConversionProfile } from '../types';
 
 /** 簡繁轉換器函數型別 */
 type ChineseConverterFn = (text: string) => Promise<string>;
 
-/** 轉換器單例實例 */
-let converterInstance: ChineseConverterFn | null = null;
+/** 預設轉換設定檔 */
+const DEFAULT_PROFILE: ChineseConversionProfile = 'tw';
 
-/** 轉換器初始化狀態 */
-let isInitialized = false;
+/** 各轉換設定檔對應的 opencc-js 參數 */
+const CONVERSION_PROFILES: Record<ChineseConversionProfile, ConverterOptions> = {
+    tw: { from: 'cn', to: 'tw' },
+    twp: { from: 'cn', to: 'twp' },
+    hk: { from: 'cn', to: 'hk' },
+};
+
+/** 批次轉換設定 */
+const BATCH_CONFIG = {
+    /** 串接字串用的分隔字元（Unicode 私人使用區，不會出現在轉換詞典中） */
+    SEPARATOR: '\uE000',
+    /** 單次呼叫轉換器的最大字元數 */
+    MAX_CHUNK_LENGTH: 100000,
+    /** 每個設定檔快取的最大字串數，超過時清空重新累積 */
+    MAX_CACHE_ENTRIES: 50000,
+} as const;
+
+/** 已初始化的轉換器（初始化失敗的設定檔為 null） */
+const converters = new Map<ChineseConversionProfile, ChineseConverterFn | null>();
+
+/** 各設定檔的轉換結果快取，在同一次執行中共用 */
+const caches = new Map<ChineseConversionProfile, Map<string, string>>();
 
 /**
  * 初始化簡繁轉換器。
  *
+ * @param profile - 轉換設定檔，預設為 `tw`
  * @returns 初始化成功返回 true，否則返回 false
  */
-export const initializeChineseConverter = async (): Promise<boolean> => {
-    if (isInitialized) {
-        return converterInstance !== null;
+export const initializeChineseConverter = async (
+    profile: ChineseConversionProfile = DEFAULT_PROFILE,
+): Promise<boolean> => {
+    if (converters.has(profile)) {
+        return converters.get(profile) !== null;
     }
 
     try {
-        converterInstance = await Converter({ from: 'cn', to: 'tw' });
-        isInitialized = true;
+        converters.set(profile, await Converter(CONVERSION_PROFILES[profile]));
         return true;
     } catch {
-        isInitialized = true;
-        converterInstance = null;
+        converters.set(profile, null);
         return false;
     }
 };
@@ -40,65 +63,233 @@ export const initializeChineseConverter = async (): Promise<boolean> => {
 /**
  * 檢查轉換器是否可用。
  *
+ * @param profile - 轉換設定檔，預設為 `tw`
  * @returns 轉換器可用返回 true，否則返回 false
  */
-export const isConverterAvailable = (): boolean => {
-    return converterInstance !== null;
+export const isConverterAvailable = (profile: ChineseConversionProfile = DEFAULT_PROFILE): boolean => {
+    return Boolean(converters.get(profile));
 };
 
 /**
- * 將簡體中文字串轉換為繁體中文。
+ * 以單一字串呼叫轉換器，失敗時返回原字串。
  *
- * @param text - 要轉換的簡體中文字串
- * @returns 轉換後的繁體中文字串
+ * @param converter - 轉換器
+ * @param text - 要轉換的字串
+ * @returns 轉換後的字串
  */
-export const convertToTraditional = async (text: string): Promise<string> => {
-    if (!converterInstance) {
+const convertSingle = async (converter: ChineseConverterFn, text: string): Promise<string> => {
+    try {
+        return await converter(text);
+    } catch {
         return text;
     }
+};
+
+/**
+ * 將一批尚未快取的字串以分隔字元串接後一次轉換。
+ *
+ * 分隔字元不在任何轉換詞典中，詞組不會跨越分隔字元比對，結果與逐一轉換相同；
+ * 轉換後的段數不符時改為逐一轉換。
+ *
+ * @param converter - 轉換器
+ * @param texts - 要轉換的字串（不含分隔字元）
+ * @returns 與輸入順序相同的轉換結果
+ */
+const convertChunk = async (converter: ChineseConverterFn, texts: string[]): Promise<string[]> => {
+    if (texts.length === 1) {
+        return [await convertSingle(converter, texts[0])];
+    }
 
     try {
-        return await converterInstance(text);
+        const parts = (await converter(texts.join(BATCH_CONFIG.SEPARATOR))).split(BATCH_CONFIG.SEPARATOR);
+        if (parts.length === texts.length) {
+            return parts;
+        }
     } catch {
-        return text;
+        // 整批失敗時改為逐一轉換
+    }
+
+    const results: string[] = [];
+    for (const text of texts) {
+        results.push(await convertSingle(converter, text));
     }
+    return results;
 };
 
 /**
- * 遞迴將物件中的所有字串從簡體轉換為繁體。
+ * 取得設定檔的快取，超過上限時清空。
  *
- * @param obj - 要轉換的物件、陣列或字串
- * @returns 轉換後的資料
+ * @param profile - 轉換設定檔
+ * @returns 原文對應轉換結果的快取
  */
-export const convertObjectToTraditional = async <T>(obj: T): Promise<T> => {
-    if (!converterInstance) {
-        return obj;
+const getCache = (profile: ChineseConversionProfile): Map<string, string> => {
+    let cache = caches.get(profile);
+    if (!cache || cache.size >= BATCH_CONFIG.MAX_CACHE_ENTRIES) {
+        cache = new Map();
+        caches.set(profile, cache);
+    }
+    return cache;
+};
+
+/**
+ * 一次轉換多個字串。
+ *
+ * 重複與已轉換過的字串直接取用快取，其餘字串分批串接後轉換，大幅減少呼叫轉換器的次數。
+ *
+ * @param texts - 要轉換的簡體中文字串
+ * @param profile - 轉換設定檔，預設為 `tw`
+ * @returns 與輸入順序相同的轉換結果，轉換器不可用時返回原字串
+ *
+ * @example
+ * ```typescript
+ * const [title, body] = await convertManyToTraditional(['软件', '鼠标'], 'twp');
+ * ```
+ */
+export const convertManyToTraditional = async (
+    texts: readonly string[],
+    profile: ChineseConversionProfile = DEFAULT_PROFILE,
+): Promise<string[]> => {
+    const converter = converters.get(profile);
+    if (!converter) {
+        return [...texts];
     }
 
-    if (typeof obj === 'string') {
-        try {
-            return (await converterInstance(obj)) as T;
-        } catch {
-            return obj;
+    const cache = getCache(profile);
+    const pending = [...new Set(texts)].filter((text) => !cache.has(text));
+
+    let chunk: string[] = [];
+    let chunkLength = 0;
+    const flush = async (): Promise<void> => {
+        const converted = await convertChunk(converter, chunk);
+        chunk.forEach((text, index) => cache.set(text, converted[index]));
+        chunk = [];
+        chunkLength = 0;
+    };
+
+    for (const text of pending) {
+        // 含分隔字元的字串無法安全串接，直接逐一轉換
+        if (text.includes(BATCH_CONFIG.SEPARATOR)) {
+            cache.set(text, await convertSingle(converter, text));
+            continue;
+        }
+        chunk.push(text);
+        chunkLength += text.length + 1;
+        if (chunkLength >= BATCH_CONFIG.MAX_CHUNK_LENGTH) {
+            await flush();
         }
     }
+    if (chunk.length > 0) {
+        await flush();
+    }
+
+    return texts.map((text) => cache.get(text) ?? text);
+};
 
-    if (Array.isArray(obj)) {
-        const convertedArray: unknown[] = [];
-        for (const item of obj) {
-            convertedArray.push(await convertObjectToTraditional(item));
+/**
+ * 將簡體中文字串轉換為繁體中文。
+ *
+ * @param text - 要轉換的簡體中文字串
+ * @param profile - 轉換設定檔，預設為 `tw`
+ * @returns 轉換後的繁體中文字串，轉換器不可用時返回原字串
+ */
+export const convertToTraditional = async (
+    text: string,
+    profile: ChineseConversionProfile = DEFAULT_PROFILE,
+): Promise<string> => {
+    const [converted] = await convertManyToTraditional([text], profile);
+    return converted;
+};
+
+/**
+ * 收集資料中要轉換的字串。
+ *
+ * @param value - 要走訪的資料
+ * @param fields - 要轉換的欄位，null 表示轉換所有字串
+ * @param texts - 收集到的字串
+ */
+const collectStrings = (value: unknown, fields: ReadonlySet<string> | null, texts: string[]): void => {
+    if (typeof value === 'string') {
+        if (!fields) {
+            texts.push(value);
         }
-        return convertedArray as T;
+        return;
+    }
+
+    if (Array.isArray(value)) {
+        value.forEach((item) => collectStrings(item, fields, texts));
+        return;
+    }
+
+    if (value !== null && typeof value === 'object') {
+        for (const [key, child] of Object.entries(value)) {
+            // 白名單欄位底下的所有字串都要轉換
+            collectStrings(child, fields?.has(key) ? null : fields, texts);
+        }
+    }
+};
+
+/**
+ * 以轉換結果重建資料。
+ *
+ * @param value - 原始資料
+ * @param fields - 要轉換的欄位，null 表示轉換所有字串
+ * @param converted - 原文對應轉換結果
+ * @returns 轉換後的資料
+ */
+const replaceStrings = (
+    value: unknown,
+    fields: ReadonlySet<string> | null,
+    converted: ReadonlyMap<string, string>,
+): unknown => {
+    if (typeof value === 'string') {
+        return fields ? value : (converted.get(value) ?? value);
+    }
+
+    if (Array.isArray(value)) {
+        return value.map((item) => replaceStrings(item, fields, converted));
     }
 
-    if (obj !== null && typeof obj === 'object') {
+    if (value !== null && typeof value === 'object') {
         const convertedObj: Record<string, unknown> = {};
-        for (const [key, value] of Object.entries(obj)) {
-            const convertedKey = await converterInstance(key);
-            convertedObj[convertedKey] = await convertObjectToTraditional(value);
+        for (const [key, child] of Object.entries(value)) {
+            convertedObj[key] = replaceStrings(child, fields?.has(key) ? null : fields, converted);
         }
-        return convertedObj as T;
+        return convertedObj;
+    }
+
+    return value;
+};
+
+/**
+ * 遞迴將資料中的字串從簡體轉換為繁體。
+ *
+ * 物件的鍵維持原樣；指定 `fields` 時只轉換這些欄位（任何層級）的值，
+ * 其餘的代碼、日期等字串不會被轉換。所有字串先收集後以 {@link convertManyToTraditional} 一次轉換。
+ *
+ * @param obj - 要轉換的物件、陣列或字串
+ * @param options - 轉換設定檔與欄位白名單，預設以 `tw` 轉換所有字串值
+ * @returns 轉換後的資料
+ *
+ * @example
+ * ```typescript
+ * await initializeChineseConverter('twp');
+ * const data = await convertObjectToTraditional(payload, { profile: 'twp', fields: ['notice'] });
+ * ```
+ */
+export const convertObjectToTraditional = async <T>(
+    obj: T,
+    options: Partial<ChineseConversionConfig> = {},
+): Promise<T> => {
+    const profile = options.profile ?? DEFAULT_PROFILE;
+    if (!isConverterAvailable(profile)) {
+        return obj;
     }
 
-    return obj;
+    const fields = options.fields ? new Set(options.fields) : null;
+    const texts: string[] = [];
+    collectStrings(obj, fields, texts);
+
+    const results = await convertManyToTraditional(texts, profile);
+    const converted = new Map(texts.map((text, index) => [text, results[index]]));
+    return replaceStrings(obj, fields, converted) as T;
 };
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview CSV 解析模組
+ *
+ * 提供文字編碼偵測（UTF-8 / Big5）與 RFC 4180 格式的 CSV 解析及產生，
+ * 用於匯入政府資料開放平台下載的檔案與匯出資料。
+ */
+
+import type { CsvValue, DecodedText } from '../types';
+
+/** UTF-8 BOM */
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * 偵測並解碼文字檔內容。
+ *
+ * 先以嚴格模式嘗試 UTF-8，失敗時改以 Big5 解碼。
+ * 政府資料開放平台的 CSV 多為 Big5 或帶 BOM 的 UTF-8。
+ *
+ * @param buffer - 檔案內容
+ * @returns 解碼後的文字與偵測到的編碼
+ *
+ * @example
+ * ```typescript
+ * const { text, encoding } = decodeText(fs.readFileSync('calendar.csv'));
+ * ```
+ */
+export const decodeText = (buffer: Uint8Array): DecodedText => {
+    let decoded: DecodedText;
+    try {
+        decoded = { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+    } catch {
+        decoded = { text: new TextDecoder('big5').decode(buffer), encoding: 'big5' };
+    }
+
+    if (decoded.text.startsWith(UTF8_BOM)) {
+        decoded.text = decoded.text.slice(UTF8_BOM.length);
+    }
+    return decoded;
+};
+
+/**
+ * 解析 CSV 文字為二維陣列。
+ *
+ * 支援以雙引號包住的欄位（含逗號、換行與 `""` 跳脫）以及 CRLF 換行，完全空白的行會略過。
+ *
+ * @param text - CSV 文字
+ * @returns 每列的欄位值
+ *
+ * @example
+ * ```typescript
+ * parseCsv('西元日期,備註\n20260101,"開國紀念日"'); // [['西元日期', '備註'], ['20260101', '開國紀念日']]
+ * ```
+ */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const endRow = (): void => {
+        row.push(field);
+        if (row.some((value) => value.trim() !== '')) {
+            rows.push(row);
+        }
+        row = [];
+        field = '';
+    };
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+
+        if (inQuotes) {
+            if (char === '"' && text[index + 1] === '"') {
+                field += '"';
+                index++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n') {
+            endRow();
+        } else if (char !== '\r') {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+    return rows;
+};
+
+/**
+ * 將欄位值轉換為 CSV 欄位，含逗號、雙引號或換行時以雙引號包住。
+ *
+ * @param value - 欄位值
+ * @returns CSV 欄位文字
+ */
+const formatCsvField = (value: CsvValue): string => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 將二維陣列格式化為 CSV 文字。
+ *
+ * 依 RFC 4180 以 CRLF 換行，並加上 UTF-8 BOM，讓 Excel 能正確顯示中文。
+ *
+ * @param rows - 每列的欄位值（第一列通常為標題列）
+ * @returns CSV 文字
+ *
+ * @example
+ * ```typescript
+ * formatCsv([['name', 'rating'], ['富宏牛肉麵', 4.2]]); // '\uFEFFname,rating\r\n富宏牛肉麵,4.2\r\n'
+ * ```
+ */
+export const formatCsv = (rows: CsvValue[][]): string => {
+    return UTF8_BOM + rows.map((row) => row.map(formatCsvField).join(',') + '\r\n').join('');
+};
@@ -0,0 +1,25 @@
+/**
+ * @fileoverview 日期工具模組
+ *
+ * 提供以台灣時區計算日期的共用函數。
+ */
+
+import { getReferenceDate } from './cassette';
+
+/**
+ * 取得台灣時區的日期字串。
+ *
+ * 預設以目前時間計算；回放模式下以錄製時間為準，確保日期判斷與錄製當時一致。
+ *
+ * @param date - 要轉換的時間，預設為目前的參考時間
+ * @returns 格式為 YYYY-MM-DD 的日期字串
+ *
+ * @example
+ * ```typescript
+ * getTaiwanDateString(); // '2025-07-24'
+ * getTaiwanDateString(new Date('2025-07-23T16:30:00Z')); // '2025-07-24'
+ * ```
+ */
+export const getTaiwanDateString = (date: Date = getReferenceDate()): string => {
+    return date.toLocaleDateString('sv-SE', { timeZone: 'Asia/Taipei' });
+};
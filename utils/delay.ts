@@ -4,9 +4,13 @@
  * 提供 Promise 形式的延遲功能，用於控制非同步操作的執行間隔。
  */
 
+import { isReplayMode } from './cassette';
+
 /**
  * 延遲指定毫秒數後解析的 Promise。
  *
+ * 回放模式下不會連線，因此不需節流，會立即解析。
+ *
  * @param ms - 要延遲的毫秒數
  * @returns 延遲完成後解析的 Promise
  *
@@ -23,5 +27,8 @@
  * ```
  */
 export const delay = (ms: number): Promise<void> => {
+    if (isReplayMode()) {
+        return Promise.resolve();
+    }
     return new Promise((resolve) => setTimeout(resolve, ms));
 };
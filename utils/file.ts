@@ -1,14 +1,14 @@
 /**
  * @fileoverview 檔案操作工具模組
  *
- * 提供檔案系統相關的工具函數，包含目錄建立和 JSON 檔案寫入。
+ * 提供檔案系統相關的工具函數，包含目錄建立和文字、JSON 檔案的原子寫入。
  */
 
 import fs from 'fs';
 import path from 'path';
 
-/** 預設的資料輸出目錄 */
-const DATA_DIRECTORY = 'data';
+/** 預設的資料輸出目錄，可透過 JSON_GATHER_DATA_DIR 環境變數覆寫 */
+const DATA_DIRECTORY = process.env.JSON_GATHER_DATA_DIR || 'data';
 
 /**
  * 確保資料目錄存在。
@@ -31,10 +31,67 @@ export const ensureDataDirectory = (directory: string = DATA_DIRECTORY): void =>
     }
 };
 
+/**
+ * 取得資料檔案的完整路徑。
+ *
+ * @param filename - 檔案名稱（可含子目錄）
+ * @param directory - 目標目錄，預設為 'data'
+ * @returns 完整的檔案路徑
+ */
+export const getDataFilePath = (filename: string, directory: string = DATA_DIRECTORY): string => {
+    return path.join(directory, filename);
+};
+
+/**
+ * 將檔案路徑轉換為相對於資料目錄的路徑（以 / 分隔），作為對外公開的端點路徑。
+ *
+ * @param filePath - 檔案路徑
+ * @returns 相對於資料目錄的路徑
+ *
+ * @example
+ * ```typescript
+ * toDataRelativePath('data/tw-calendar/upcoming.json'); // 'tw-calendar/upcoming.json'
+ * ```
+ */
+export const toDataRelativePath = (filePath: string): string => {
+    return path.relative(DATA_DIRECTORY, filePath).split(path.sep).join('/');
+};
+
+/**
+ * 將文字內容寫入檔案。
+ *
+ * 自動確保目標目錄存在。先寫入同目錄的暫存檔再重新命名，
+ * 即使中途中斷也不會留下被截斷的檔案。
+ *
+ * @param filename - 檔案名稱（可含子目錄）
+ * @param content - 要寫入的文字內容
+ * @param directory - 目標目錄，預設為 'data'
+ * @returns 完整的檔案路徑
+ *
+ * @example
+ * ```typescript
+ * writeTextFile('tw-calendar/ics/2026.ics', icsContent);
+ * ```
+ */
+export const writeTextFile = (filename: string, content: string, directory: string = DATA_DIRECTORY): string => {
+    const filePath = path.join(directory, filename);
+    ensureDataDirectory(path.dirname(filePath));
+
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+        fs.writeFileSync(tempPath, content, 'utf8');
+        fs.renameSync(tempPath, filePath);
+    } catch (error) {
+        fs.rmSync(tempPath, { force: true });
+        throw error;
+    }
+    return filePath;
+};
+
 /**
  * 將資料寫入 JSON 檔案。
  *
- * 自動確保目標目錄存在，並以格式化的 JSON 格式寫入檔案。
+ * 以格式化的 JSON 格式透過 {@link writeTextFile} 原子寫入。
  *
  * @param filename - 檔案名稱（不含路徑）
  * @param data - 要寫入的資料
@@ -48,10 +105,7 @@ export const ensureDataDirectory = (directory: string = DATA_DIRECTORY): void =>
  * ```
  */
 export const writeJsonFile = (filename: string, data: unknown, directory: string = DATA_DIRECTORY): string => {
-    ensureDataDirectory(directory);
-    const filePath = path.join(directory, filename);
-    fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf8');
-    return filePath;
+    return writeTextFile(filename, JSON.stringify(data, null, 2), directory);
 };
 
 /**
@@ -72,3 +126,25 @@ export const readJsonFile = <T>(filename: string, directory: string = DATA_DIREC
     const content = fs.readFileSync(filePath, 'utf8');
     return JSON.parse(content) as T;
 };
+
+/**
+ * 讀取 JSON 檔案內容，檔案不存在或格式錯誤時返回 null。
+ *
+ * 適合用來讀取前一次執行的輸出檔案。
+ *
+ * @param filename - 檔案名稱（不含路徑）
+ * @param directory - 目標目錄，預設為 'data'
+ * @returns 解析後的 JSON 資料或 null
+ *
+ * @example
+ * ```typescript
+ * const previous = tryReadJsonFile<HoroscopeOutput>('horoscope.json');
+ * ```
+ */
+export const tryReadJsonFile = <T>(filename: string, directory: string = DATA_DIRECTORY): T | null => {
+    try {
+        return readJsonFile<T>(filename, directory);
+    } catch {
+        return null;
+    }
+};
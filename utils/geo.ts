@@ -0,0 +1,143 @@
+/**
+ * @fileoverview 地理邊界模組
+ *
+ * 解析 GeoJSON 行政區界，並以射線法判斷座標落在哪個行政區內。
+ * 座標一律為 WGS84 經緯度，GeoJSON 的點為 [經度, 緯度]。
+ */
+
+import type { BoundaryFeatureCollection, Coordinates, DistrictBoundary, PolygonCoordinates } from '../types';
+
+/** 行政區名稱可能使用的屬性（內政部鄉鎮市區界線為 TOWNNAME） */
+const NAME_PROPERTIES = ['TOWNNAME', 'name', 'NAME'] as const;
+
+/** 縣市名稱屬性（全國界線檔中不同縣市有同名行政區，例如台北市與台中市都有大安區） */
+const COUNTY_PROPERTY = 'COUNTYNAME';
+
+/**
+ * 判斷點是否在環（封閉折線）內。
+ *
+ * @param lng - 經度
+ * @param lat - 緯度
+ * @param ring - 環的頂點
+ * @returns 在環內返回 true
+ */
+const isInsideRing = (lng: number, lat: number, ring: [number, number][]): boolean => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+/**
+ * 判斷點是否在多邊形內（在外框內且不在任何洞內）。
+ *
+ * @param lng - 經度
+ * @param lat - 緯度
+ * @param polygon - 多邊形座標
+ * @returns 在多邊形內返回 true
+ */
+const isInsidePolygon = (lng: number, lat: number, polygon: PolygonCoordinates): boolean => {
+    const [outer, ...holes] = polygon;
+    return Boolean(outer) && isInsideRing(lng, lat, outer) && !holes.some((hole) => isInsideRing(lng, lat, hole));
+};
+
+/**
+ * 計算多邊形的外接矩形。
+ *
+ * @param polygons - 多邊形列表
+ * @returns [最小經度, 最小緯度, 最大經度, 最大緯度]
+ */
+const computeBoundingBox = (polygons: PolygonCoordinates[]): DistrictBoundary['bbox'] => {
+    const bbox: DistrictBoundary['bbox'] = [Infinity, Infinity, -Infinity, -Infinity];
+    for (const [outer] of polygons) {
+        for (const [lng, lat] of outer ?? []) {
+            bbox[0] = Math.min(bbox[0], lng);
+            bbox[1] = Math.min(bbox[1], lat);
+            bbox[2] = Math.max(bbox[2], lng);
+            bbox[3] = Math.max(bbox[3], lat);
+        }
+    }
+    return bbox;
+};
+
+/**
+ * 將 GeoJSON FeatureCollection 解析為行政區界。
+ *
+ * 只保留名稱在 `districts` 中的 Feature，同名的 Feature 會合併（例如分開儲存的離島）。
+ * Feature 帶有 `COUNTYNAME` 屬性時必須是 `cityNames` 之一，因此可以直接使用全國的界線檔。
+ *
+ * @param collection - GeoJSON FeatureCollection
+ * @param districts - 需要的行政區名稱
+ * @param cityNames - 縣市名稱
+ * @returns 行政區界列表
+ * @throws 不是 FeatureCollection 或缺少任何行政區時拋出錯誤
+ *
+ * @example
+ * ```typescript
+ * const collection = readJsonFile<BoundaryFeatureCollection>('taipei.geojson', BOUNDARY_DIR);
+ * const boundaries = parseDistrictBoundaries(collection, ['中正區', '大同區'], ['臺北市']);
+ * ```
+ */
+export const parseDistrictBoundaries = (
+    collection: BoundaryFeatureCollection,
+    districts: readonly string[],
+    cityNames: readonly string[],
+): DistrictBoundary[] => {
+    if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+        throw new Error('行政區界檔案必須是 GeoJSON FeatureCollection');
+    }
+
+    const wanted = new Set(districts);
+    const polygonsByName = new Map<string, PolygonCoordinates[]>();
+
+    for (const feature of collection.features) {
+        const name = NAME_PROPERTIES.map((key) => feature.properties?.[key]).find(
+            (value): value is string => typeof value === 'string',
+        );
+        const county = feature.properties?.[COUNTY_PROPERTY];
+        if (!name || !wanted.has(name) || !feature.geometry) continue;
+        if (typeof county === 'string' && !cityNames.includes(county)) continue;
+
+        const polygons =
+            feature.geometry.type === 'Polygon' ? [feature.geometry.coordinates] : feature.geometry.coordinates;
+        polygonsByName.set(name, [...(polygonsByName.get(name) ?? []), ...polygons]);
+    }
+
+    const missing = districts.filter((district) => !polygonsByName.has(district));
+    if (missing.length > 0) {
+        throw new Error(`行政區界檔案缺少行政區: ${missing.join(', ')}`);
+    }
+
+    return [...polygonsByName.entries()].map(([name, polygons]) => ({
+        name,
+        polygons,
+        bbox: computeBoundingBox(polygons),
+    }));
+};
+
+/**
+ * 找出座標所在的行政區。
+ *
+ * @param boundaries - 行政區界列表
+ * @param point - 座標
+ * @returns 行政區名稱，不在任何行政區內時返回 undefined
+ */
+export const findDistrictByPoint = (
+    boundaries: readonly DistrictBoundary[],
+    point: Coordinates,
+): string | undefined => {
+    const { lat, lng } = point;
+    return boundaries.find(
+        ({ bbox, polygons }) =>
+            lng >= bbox[0] &&
+            lat >= bbox[1] &&
+            lng <= bbox[2] &&
+            lat <= bbox[3] &&
+            polygons.some((polygon) => isInsidePolygon(lng, lat, polygon)),
+    )?.name;
+};
@@ -0,0 +1,25 @@
+/**
+ * @fileoverview 雜湊工具模組
+ *
+ * 提供以內容計算穩定識別碼的功能。
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * 計算字串內容的 SHA-256 雜湊值。
+ *
+ * @param content - 要計算的內容
+ * @param length - 取前幾個十六進位字元，預設為完整長度
+ * @returns 十六進位雜湊字串
+ *
+ * @example
+ * ```typescript
+ * hashContent('你好'); // 完整 64 字元
+ * hashContent('你好', 12); // 前 12 字元，適合作為 ID
+ * ```
+ */
+export const hashContent = (content: string, length?: number): string => {
+    const digest = createHash('sha256').update(content, 'utf8').digest('hex');
+    return length ? digest.slice(0, length) : digest;
+};
@@ -1,7 +1,43 @@
 /**
  * @fileoverview HTTP 請求工具模組
+ *
+ * 提供共用的 HTTP 客戶端，統一處理逾時、指數退避重試（含隨機抖動）、
+ * `Retry-After` 標頭與可重試狀態碼判斷，並以 {@link HttpResult} 回傳結果而非拋出例外。
+ * 請求會經過 `./cassette` 以支援錄製與回放。
  */
 
+import axios, { AxiosError } from 'axios';
+
+import type {
+    CassetteRequest,
+    CassetteResponse,
+    HttpClient,
+    HttpClientOptions,
+    HttpError,
+    HttpRequestOptions,
+    HttpResult,
+} from '../types';
+import { isReplayMode, recordInteraction, takeReplayResponse } from './cassette';
+import { delay } from './delay';
+
+/** 預設的請求標頭 */
+const DEFAULT_HEADERS: Record<string, string> = {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+    Accept: 'application/json',
+};
+
+/** 預設的客戶端設定 */
+const DEFAULT_OPTIONS: Required<HttpClientOptions> = {
+    timeout: 10000,
+    maxRetries: 3,
+    baseDelay: 1000,
+    maxDelay: 30000,
+    headers: {},
+};
+
+/** 可重試的 HTTP 狀態碼 */
+const RETRYABLE_STATUS_CODES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
 /**
  * 從錯誤物件中提取錯誤訊息。
  *
@@ -14,3 +50,227 @@ export const getErrorMessage = (error: unknown): string => {
     }
     return String(error);
 };
+
+/**
+ * 判斷 HTTP 狀態碼是否可重試。
+ *
+ * @param status - HTTP 狀態碼
+ * @returns 可重試返回 true
+ */
+export const isRetryableStatus = (status: number): boolean => {
+    return RETRYABLE_STATUS_CODES.has(status);
+};
+
+/**
+ * 解析 `Retry-After` 標頭。
+ *
+ * 支援秒數與 HTTP 日期兩種格式。
+ *
+ * @param header - 標頭值
+ * @param now - 目前時間戳記（毫秒）
+ * @returns 應等待的毫秒數，無法解析時返回 null
+ */
+export const parseRetryAfter = (header: string | undefined, now: number = Date.now()): number | null => {
+    if (!header) {
+        return null;
+    }
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    if (Number.isNaN(date)) {
+        return null;
+    }
+    return Math.max(0, date - now);
+};
+
+/**
+ * 計算第 N 次重試前的等待時間。
+ *
+ * 以 `baseDelay * 2^attempt` 指數成長並以 `maxDelay` 為上限，
+ * 再取其一半加上隨機的另一半作為抖動，避免多個請求同時重試。
+ *
+ * @param attempt - 第幾次重試（從 0 開始）
+ * @param options - 重試設定
+ * @param random - 亂數產生函數，預設為 Math.random
+ * @returns 等待毫秒數
+ */
+export const computeBackoffDelay = (
+    attempt: number,
+    options: Pick<Required<HttpClientOptions>, 'baseDelay' | 'maxDelay'>,
+    random: () => number = Math.random,
+): number => {
+    const exponential = Math.min(options.maxDelay, options.baseDelay * 2 ** attempt);
+    return Math.round(exponential / 2 + random() * (exponential / 2));
+};
+
+/**
+ * 將 axios 錯誤轉換為 HttpError。
+ *
+ * @param error - 請求過程拋出的錯誤
+ * @returns 分類後的錯誤資訊
+ */
+const toHttpError = (error: unknown): HttpError => {
+    if (error instanceof AxiosError) {
+        if (error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT) {
+            return { kind: 'timeout', message: `請求逾時: ${error.message}`, retryable: true };
+        }
+        return { kind: 'network', message: `網路錯誤: ${error.message}`, retryable: true };
+    }
+    return { kind: 'network', message: getErrorMessage(error), retryable: true };
+};
+
+/**
+ * 發送單次 HTTP 請求。
+ *
+ * 回放模式下從錄製檔取出回應；錄製模式下會在收到回應後記錄下來。
+ *
+ * @param cassetteRequest - 請求資料
+ * @param headers - 請求標頭
+ * @param timeout - 逾時（毫秒）
+ * @returns 回應資料；回放模式下找不到對應回應時返回 null
+ */
+const sendOnce = async (
+    cassetteRequest: CassetteRequest,
+    headers: Record<string, string>,
+    timeout: number,
+): Promise<CassetteResponse | null> => {
+    if (isReplayMode()) {
+        return takeReplayResponse(cassetteRequest);
+    }
+
+    const response = await axios.request({
+        method: cassetteRequest.method,
+        url: cassetteRequest.url,
+        params: cassetteRequest.params,
+        data: cassetteRequest.body,
+        headers,
+        timeout,
+        validateStatus: () => true,
+    });
+
+    const responseHeaders: Record<string, string> = {};
+    for (const name of ['content-type', 'retry-after']) {
+        const value = response.headers[name];
+        if (typeof value === 'string') {
+            responseHeaders[name] = value;
+        }
+    }
+
+    const cassetteResponse: CassetteResponse = { status: response.status, headers: responseHeaders, data: response.data };
+    recordInteraction(cassetteRequest, cassetteResponse);
+    return cassetteResponse;
+};
+
+/**
+ * 發送 HTTP 請求，失敗時依規則重試。
+ *
+ * @param method - HTTP 方法
+ * @param url - 請求網址
+ * @param options - 請求設定
+ * @returns 請求結果
+ */
+const request = async <T>(
+    method: 'GET' | 'POST',
+    url: string,
+    options: HttpRequestOptions<T> = {},
+): Promise<HttpResult<T>> => {
+    const config = { ...DEFAULT_OPTIONS, ...options };
+    const headers = { ...DEFAULT_HEADERS, ...options.headers };
+    const cassetteRequest: CassetteRequest = { method, url, params: options.params, body: options.body };
+
+    let lastError: HttpError = { kind: 'network', message: '尚未發送請求', retryable: false };
+    let attempts = 0;
+
+    for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+        let retryAfter: number | null = null;
+        attempts = attempt + 1;
+        options.onAttempt?.(attempts);
+
+        try {
+            const response = await sendOnce(cassetteRequest, headers, config.timeout);
+
+            if (!response) {
+                lastError = { kind: 'network', message: `錄製檔中找不到對應的請求: ${method} ${url}`, retryable: false };
+            } else if (response.status >= 200 && response.status < 300) {
+                const data = response.data as T;
+                const invalidReason = options.validate?.(data) ?? null;
+                if (!invalidReason) {
+                    return { ok: true, status: response.status, data, attempts };
+                }
+                lastError = { kind: 'invalid', message: invalidReason, status: response.status, retryable: true };
+            } else {
+                lastError = {
+                    kind: 'http',
+                    message: `HTTP ${response.status}`,
+                    status: response.status,
+                    retryable: isRetryableStatus(response.status),
+                };
+                retryAfter = parseRetryAfter(response.headers['retry-after']);
+            }
+        } catch (error) {
+            lastError = toHttpError(error);
+        }
+
+        if (!lastError.retryable || attempt === config.maxRetries) {
+            break;
+        }
+
+        const backoff = computeBackoffDelay(attempt, config);
+        await delay(retryAfter !== null ? Math.min(retryAfter, config.maxDelay) : backoff);
+    }
+
+    return { ok: false, error: lastError, attempts };
+};
+
+/**
+ * 建立共用預設值的 HTTP 客戶端。
+ *
+ * @param defaults - 客戶端預設設定，個別請求可再覆寫
+ * @returns HTTP 客戶端
+ *
+ * @example
+ * ```typescript
+ * const client = createHttpClient({ timeout: 10000, maxRetries: 3 });
+ * const result = await client.get<ApiData>(url, { params: { type: 'aries' } });
+ * if (result.ok) {
+ *     console.log(result.data);
+ * } else {
+ *     console.log(result.error.message);
+ * }
+ * ```
+ */
+export const createHttpClient = (defaults: HttpClientOptions = {}): HttpClient => {
+    const merge = <T>(options: HttpRequestOptions<T>): HttpRequestOptions<T> => ({
+        ...defaults,
+        ...options,
+        headers: { ...defaults.headers, ...options.headers },
+    });
+
+    return {
+        /**
+         * 發送 GET 請求。
+         *
+         * @param url - 請求網址
+         * @param options - 請求設定
+         * @returns 請求結果
+         */
+        get: <T>(url: string, options: HttpRequestOptions<T> = {}): Promise<HttpResult<T>> => {
+            return request<T>('GET', url, merge(options));
+        },
+
+        /**
+         * 發送 POST 請求，主體以 JSON 送出。
+         *
+         * @param url - 請求網址
+         * @param options - 請求設定
+         * @returns 請求結果
+         */
+        post: <T>(url: string, options: HttpRequestOptions<T> = {}): Promise<HttpResult<T>> => {
+            return request<T>('POST', url, merge(options));
+        },
+    };
+};
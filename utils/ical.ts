@@ -0,0 +1,108 @@
+/**
+ * @fileoverview iCalendar (RFC 5545) 產生模組
+ *
+ * 將全天事件轉換為可供 Google 日曆、Outlook 訂閱的 `.ics` 文字內容。
+ */
+
+import type { ICalendarEvent } from '../types';
+import { addDaysToCompactDate } from './calendar';
+
+/** 每行最多的位元組數（不含換行） */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * 跳脫 TEXT 型別的屬性值。
+ *
+ * @param value - 原始文字
+ * @returns 跳脫後的文字
+ */
+const escapeText = (value: string): string => {
+    return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * 依 RFC 5545 將過長的行摺疊，續行以一個空白開頭。
+ *
+ * 以 UTF-8 位元組計算長度，且不會把多位元組字元切開。
+ *
+ * @param line - 單行內容
+ * @returns 摺疊後的內容（以 CRLF 分隔）
+ */
+const foldLine = (line: string): string => {
+    const segments: string[] = [];
+    let current = '';
+    let octets = 0;
+
+    for (const char of line) {
+        const size = Buffer.byteLength(char, 'utf8');
+        // 續行的開頭空白也算在長度內
+        const limit = segments.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            segments.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    segments.push(current);
+
+    return segments.join('\r\n ');
+};
+
+/**
+ * 將單一事件轉換為 VEVENT 屬性行。
+ *
+ * DTSTAMP 使用事件開始日期而非產生時間，讓內容不變時輸出檔案也維持不變。
+ *
+ * @param event - 全天事件
+ * @returns 屬性行
+ */
+const buildEventLines = (event: ICalendarEvent): string[] => {
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${event.startDate}T000000Z`,
+        `DTSTART;VALUE=DATE:${event.startDate}`,
+        // 全天事件的 DTEND 不含當天
+        `DTEND;VALUE=DATE:${addDaysToCompactDate(event.endDate, 1)}`,
+        `SUMMARY:${escapeText(event.summary)}`,
+    ];
+    if (event.description) {
+        lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.categories && event.categories.length > 0) {
+        lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    }
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+    return lines;
+};
+
+/**
+ * 產生 iCalendar 文字內容。
+ *
+ * @param calendarName - 日曆名稱，顯示於訂閱端
+ * @param events - 全天事件列表
+ * @returns 以 CRLF 分隔的 `.ics` 內容
+ *
+ * @example
+ * ```typescript
+ * const ics = buildICalendar('台灣行事曆', [
+ *     { uid: '20260101-holiday@json-gather', summary: '開國紀念日', startDate: '20260101', endDate: '20260101' },
+ * ]);
+ * ```
+ */
+export const buildICalendar = (calendarName: string, events: ICalendarEvent[]): string => {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//json-gather//tw-calendar//ZH-TW',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(calendarName)}`,
+        'X-WR-TIMEZONE:Asia/Taipei',
+        ...events.flatMap(buildEventLines),
+        'END:VCALENDAR',
+    ];
+    return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
@@ -8,12 +8,55 @@
  */
 
 export { delay } from './delay';
-export { logger } from './logger';
-export { ensureDataDirectory, writeJsonFile, readJsonFile } from './file';
+export { getTaiwanDateString } from './date';
+export {
+    parseCompactDate,
+    toCompactDate,
+    addDaysToCompactDate,
+    getChineseWeekday,
+    groupHolidayPeriods,
+} from './calendar';
+export { checkRawCalendar, formatCalendarIssues } from './calendar-integrity';
+export { buildICalendar } from './ical';
+export { decodeText, parseCsv, formatCsv } from './csv';
+export { buildKml } from './kml';
+export { createBusinessCalendar, loadBusinessCalendar } from './business-days';
+export { parseDistrictBoundaries, findDistrictByPoint } from './geo';
+export { hashContent } from './hash';
+export { logger, writeRunSummary } from './logger';
+export { updateManifest, mergeManifest } from './manifest';
+export {
+    ensureDataDirectory,
+    getDataFilePath,
+    toDataRelativePath,
+    writeTextFile,
+    writeJsonFile,
+    readJsonFile,
+    tryReadJsonFile,
+} from './file';
 export {
     initializeChineseConverter,
     isConverterAvailable,
     convertToTraditional,
+    convertManyToTraditional,
     convertObjectToTraditional,
 } from './chinese-converter';
-export { getErrorMessage } from './http';
+export {
+    getErrorMessage,
+    createHttpClient,
+    isRetryableStatus,
+    parseRetryAfter,
+    computeBackoffDelay,
+} from './http';
+export { defineScraper } from './scraper';
+export { checkQualityGate } from './quality-gate';
+export { schema, validateSchema, formatValidationIssues } from './schema';
+export {
+    publishSchema,
+    getSchemaFilename,
+    getSchemaUrl,
+    toJsonSchema,
+    buildJsonSchemaDocument,
+    writeSchemaDocuments,
+} from './json-schema';
+export { getHttpMode, isReplayMode, getReferenceDate } from './cassette';
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview JSON Schema 產生模組
+ *
+ * 將驗證規則 ({@link SchemaNode}) 轉換為 JSON Schema (draft 2020-12)，
+ * 發布於 `data/schemas/<name>.v<version>.json`，讓前端與行動裝置能以機器可讀的方式取得資料結構。
+ *
+ * 每份公開的規則都有版本號；規則有任何變更時必須遞增版本，舊版本的檔案保留不動，
+ * 使用者可從輸出資料的 `$schema` 網址是否改變判斷結構是否變更。
+ */
+
+import type {
+    JsonSchema,
+    JsonSchemaDocument,
+    PublishedSchema,
+    PublishedSchemaInfo,
+    Schema,
+    SchemaNode,
+} from '../types';
+import { tryReadJsonFile, writeJsonFile } from './file';
+
+/** 公開資料的基礎網址（GitHub Pages） */
+const PUBLIC_BASE_URL = 'https://garylin0969.github.io/json-gather/data';
+
+/** JSON Schema 規範版本 */
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * 將驗證規則標記為對外公開。
+ *
+ * @param info - 公開資訊
+ * @param inner - 驗證規則
+ * @returns 帶有公開資訊的驗證規則
+ *
+ * @example
+ * ```typescript
+ * export const horoscopeOutputSchema = publishSchema(
+ *     { name: 'horoscope', version: 1, title: '星座運勢', description: '當日 12 星座運勢' },
+ *     schema.object({ ... }),
+ * );
+ * ```
+ */
+export const publishSchema = <T>(info: PublishedSchemaInfo, inner: Schema<T>): PublishedSchema<T> => ({
+    node: inner.node,
+    published: info,
+});
+
+/**
+ * 取得 JSON Schema 文件相對於 data 的路徑。
+ *
+ * @param info - 公開資訊
+ * @returns 例如 `schemas/horoscope.v1.json`
+ */
+export const getSchemaFilename = (info: PublishedSchemaInfo): string => `schemas/${info.name}.v${info.version}.json`;
+
+/**
+ * 取得 JSON Schema 文件的公開網址，作為輸出資料的 `$schema` 欄位。
+ *
+ * @param target - 公開的驗證規則或公開資訊
+ * @returns 公開網址
+ */
+export const getSchemaUrl = (target: PublishedSchemaInfo | Pick<PublishedSchema<unknown>, 'published'>): string => {
+    const info = 'published' in target ? target.published : target;
+    return `${PUBLIC_BASE_URL}/${getSchemaFilename(info)}`;
+};
+
+/**
+ * 將驗證規則轉換為 JSON Schema。
+ *
+ * 物件未列出的欄位不會檢查，因此不限制 additionalProperties。
+ *
+ * @param node - 驗證規則
+ * @returns JSON Schema
+ */
+export const toJsonSchema = (node: SchemaNode): JsonSchema => {
+    switch (node.type) {
+        case 'unknown':
+            return {};
+
+        case 'null':
+        case 'boolean':
+            return { type: node.type };
+
+        case 'string':
+            return node.pattern ? { type: 'string', pattern: node.pattern } : { type: 'string' };
+
+        case 'number': {
+            const result: JsonSchema = { type: node.integer ? 'integer' : 'number' };
+            if (node.minimum !== undefined) {
+                result.minimum = node.minimum;
+            }
+            return result;
+        }
+
+        case 'array':
+            return { type: 'array', items: toJsonSchema(node.items) };
+
+        case 'record':
+            return { type: 'object', additionalProperties: toJsonSchema(node.values) };
+
+        case 'object': {
+            const properties: Record<string, JsonSchema> = {};
+            const required: string[] = [];
+            for (const [key, property] of Object.entries(node.properties)) {
+                properties[key] = toJsonSchema(property.schema);
+                if (!property.optional) {
+                    required.push(key);
+                }
+            }
+            return required.length > 0 ? { type: 'object', properties, required } : { type: 'object', properties };
+        }
+
+        case 'union':
+            return { anyOf: node.options.map(toJsonSchema) };
+    }
+};
+
+/**
+ * 產生公開的 JSON Schema 文件。
+ *
+ * @param target - 公開的驗證規則
+ * @returns JSON Schema 文件
+ */
+export const buildJsonSchemaDocument = (
+    target: Pick<PublishedSchema<unknown>, 'node' | 'published'>,
+): JsonSchemaDocument => {
+    const { published } = target;
+    return {
+        $schema: JSON_SCHEMA_DIALECT,
+        $id: getSchemaUrl(published),
+        title: published.title,
+        description: published.description,
+        'x-version': published.version,
+        ...toJsonSchema(target.node),
+    };
+};
+
+/**
+ * 產生所有公開的 JSON Schema 文件並寫入 data/schemas/。
+ *
+ * 已發布的版本不可覆寫：同版本的檔案已存在且內容不同時代表規則變更卻未遞增版本，拋出錯誤。
+ *
+ * @param targets - 公開的驗證規則
+ * @param options - `check` 為 true 時只檢查，不寫入檔案
+ * @returns 本次新寫入（或檢查模式下尚未產生）的檔案路徑
+ * @throws 若規則已變更但版本未遞增，或檢查模式下有檔案尚未產生則拋出錯誤
+ */
+export const writeSchemaDocuments = (
+    targets: readonly Pick<PublishedSchema<unknown>, 'node' | 'published'>[],
+    options: { check?: boolean } = {},
+): string[] => {
+    const problems: string[] = [];
+    const pending: { filename: string; document: JsonSchemaDocument }[] = [];
+
+    for (const target of targets) {
+        const filename = getSchemaFilename(target.published);
+        const document = buildJsonSchemaDocument(target);
+        const existing = tryReadJsonFile<JsonSchemaDocument>(filename);
+
+        if (!existing) {
+            pending.push({ filename, document });
+        } else if (JSON.stringify(existing) !== JSON.stringify(document)) {
+            problems.push(`${filename}: 規則已變更，請遞增 ${target.published.name} 的版本`);
+        }
+    }
+
+    if (options.check && pending.length > 0) {
+        problems.push(...pending.map(({ filename }) => `${filename}: 尚未產生`));
+    }
+    if (problems.length > 0) {
+        throw new Error(`JSON Schema 檢查失敗:\n${problems.join('\n')}`);
+    }
+
+    return options.check ? [] : pending.map(({ filename, document }) => writeJsonFile(filename, document));
+};
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview KML 產生模組
+ *
+ * 將地標轉換為可匯入 Google My Maps、Google Earth 與 QGIS 的 KML 2.2 文字內容。
+ */
+
+import type { KmlPlacemark } from '../types';
+
+/**
+ * 跳脫 XML 文字與屬性值。
+ *
+ * @param value - 原始文字
+ * @returns 跳脫後的文字
+ */
+const escapeXml = (value: string): string => {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+};
+
+/**
+ * 將單一地標轉換為 Placemark 元素。
+ *
+ * @param placemark - 地標
+ * @returns Placemark 元素的各行
+ */
+const buildPlacemark = (placemark: KmlPlacemark): string[] => {
+    const { lat, lng } = placemark.coordinates;
+    const lines = ['    <Placemark>', `      <name>${escapeXml(placemark.name)}</name>`];
+
+    if (placemark.description) {
+        lines.push(`      <description>${escapeXml(placemark.description)}</description>`);
+    }
+
+    const data = Object.entries(placemark.extendedData ?? {}).filter(
+        (entry): entry is [string, string | number] => entry[1] !== null && entry[1] !== undefined,
+    );
+    if (data.length > 0) {
+        lines.push('      <ExtendedData>');
+        for (const [name, value] of data) {
+            lines.push(`        <Data name="${escapeXml(name)}"><value>${escapeXml(String(value))}</value></Data>`);
+        }
+        lines.push('      </ExtendedData>');
+    }
+
+    // KML 座標順序為經度,緯度
+    lines.push(`      <Point><coordinates>${lng},${lat}</coordinates></Point>`, '    </Placemark>');
+    return lines;
+};
+
+/**
+ * 產生 KML 文件。
+ *
+ * @param documentName - 文件名稱（匯入 Google My Maps 時作為圖層名稱）
+ * @param placemarks - 地標列表
+ * @returns KML 文字內容
+ *
+ * @example
+ * ```typescript
+ * const kml = buildKml('台北市牛肉麵', [
+ *     { name: '富宏牛肉麵', coordinates: { lat: 25.0476, lng: 121.5077 }, extendedData: { rating: 4.2 } },
+ * ]);
+ * ```
+ */
+export const buildKml = (documentName: string, placemarks: KmlPlacemark[]): string => {
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">',
+        '  <Document>',
+        `    <name>${escapeXml(documentName)}</name>`,
+        ...placemarks.flatMap(buildPlacemark),
+        '  </Document>',
+        '</kml>',
+    ];
+    return lines.join('\n') + '\n';
+};
@@ -1,83 +1,181 @@
 /**
  * @fileoverview 統一日誌工具模組
  *
- * 提供結構化的日誌輸出功能，使用 emoji 圖示區分不同等級的訊息。
+ * 提供分級的日誌輸出功能：
+ * - `LOG_LEVEL` 環境變數控制最低輸出等級（debug、info、warn、error，預設 info）
+ * - `LOG_FORMAT=json` 時每行輸出一筆 JSON（JSON Lines），方便 CI 解析；預設以 emoji 圖示區分等級
+ * - warn 與 error 輸出到 stderr，其餘輸出到 stdout
+ *
+ * 所有警告、錯誤與計時區段都會保留下來（不受 LOG_LEVEL 影響），
+ * 執行結束時由 {@link writeRunSummary} 寫入 logs/ 以便事後診斷排程失敗的原因。
  */
 
+import type { LogFormat, Logger, LogLevel, LogRecord, LogSpan, RunLogSummary, ScraperRunSummary } from '../types';
+import { writeJsonFile } from './file';
+
+/** 執行摘要的輸出目錄，可透過 JSON_GATHER_LOG_DIR 環境變數覆寫 */
+const LOG_DIRECTORY = process.env.JSON_GATHER_LOG_DIR || 'logs';
+
+/** 各等級的優先順序 */
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40,
+};
+
+/** 文字格式使用的 emoji 圖示 */
+const ICONS = {
+    debug: '🔍',
+    info: 'ℹ️',
+    success: '✅',
+    warn: '⚠️',
+    error: '❌',
+    progress: '📊',
+} as const;
+
 /**
- * 日誌工具物件。
+ * 解析 LOG_LEVEL，無效值視為 info。
  *
- * 提供不同等級的日誌輸出方法，每個方法都會自動添加對應的 emoji 圖示。
+ * @param value - 環境變數值
+ * @returns 日誌等級
  */
-export const logger = {
-    /**
-     * 輸出成功訊息。
-     *
-     * @param message - 訊息內容
-     * @param data - 可選的附加資料
-     */
-    success: (message: string, data?: unknown): void => {
-        if (data !== undefined) {
-            console.log(`✅ ${message}`, data);
-        } else {
-            console.log(`✅ ${message}`);
-        }
-    },
+const parseLogLevel = (value: string | undefined): LogLevel => {
+    const level = value?.trim().toLowerCase();
+    return level && level in LEVEL_PRIORITY ? (level as LogLevel) : 'info';
+};
 
-    /**
-     * 輸出錯誤訊息。
-     *
-     * @param message - 訊息內容
-     * @param data - 可選的附加資料
-     */
-    error: (message: string, data?: unknown): void => {
-        if (data !== undefined) {
-            console.log(`❌ ${message}`, data);
-        } else {
-            console.log(`❌ ${message}`);
-        }
-    },
+/** 最低輸出等級 */
+const minLevel: LogLevel = parseLogLevel(process.env.LOG_LEVEL);
 
-    /**
-     * 輸出一般資訊。
-     *
-     * @param message - 訊息內容
-     * @param data - 可選的附加資料
-     */
-    info: (message: string, data?: unknown): void => {
-        if (data !== undefined) {
-            console.log(`ℹ️ ${message}`, data);
-        } else {
-            console.log(`ℹ️ ${message}`);
-        }
-    },
+/** 輸出格式 */
+const format: LogFormat = process.env.LOG_FORMAT?.trim().toLowerCase() === 'json' ? 'json' : 'pretty';
 
-    /**
-     * 輸出警告訊息。
-     *
-     * @param message - 訊息內容
-     * @param data - 可選的附加資料
-     */
-    warn: (message: string, data?: unknown): void => {
-        if (data !== undefined) {
-            console.log(`⚠️ ${message}`, data);
-        } else {
-            console.log(`⚠️ ${message}`);
-        }
-    },
+/** 本次執行保留的警告、錯誤與計時區段 */
+const history: { startedAt: Date; warnings: LogRecord[]; errors: LogRecord[]; spans: LogSpan[] } = {
+    startedAt: new Date(),
+    warnings: [],
+    errors: [],
+    spans: [],
+};
+
+/**
+ * 將附加資料轉換為可序列化的值（Error 物件只保留訊息）。
+ *
+ * @param data - 附加資料
+ * @returns 可序列化的資料
+ */
+const serializeData = (data: unknown): unknown => (data instanceof Error ? data.message : data);
+
+/**
+ * 輸出並保存一筆日誌。
+ *
+ * @param level - 日誌等級
+ * @param icon - 文字格式使用的圖示
+ * @param scope - 範圍
+ * @param message - 訊息內容
+ * @param data - 附加資料
+ */
+const emit = (level: LogLevel, icon: string, scope: string | undefined, message: string, data: unknown): void => {
+    const record: LogRecord = { time: new Date().toISOString(), level, scope, message };
+    if (data !== undefined) {
+        record.data = serializeData(data);
+    }
+
+    if (level === 'warn') history.warnings.push(record);
+    if (level === 'error') history.errors.push(record);
+
+    if (LEVEL_PRIORITY[level] < LEVEL_PRIORITY[minLevel]) {
+        return;
+    }
 
-    /**
-     * 輸出進度訊息。
-     *
-     * @param current - 目前進度
-     * @param total - 總數
-     * @param message - 可選的附加訊息
-     */
-    progress: (current: number, total: number, message?: string): void => {
+    const write = LEVEL_PRIORITY[level] >= LEVEL_PRIORITY.warn ? console.error : console.log;
+    if (format === 'json') {
+        write(JSON.stringify(record));
+        return;
+    }
+
+    const text = `${icon} ${scope ? `[${scope}] ` : ''}${message}`;
+    if (data !== undefined) {
+        write(text, data);
+    } else {
+        write(text);
+    }
+};
+
+/**
+ * 建立日誌工具。
+ *
+ * @param scope - 範圍（例如爬蟲名稱），根日誌為 undefined
+ * @returns 日誌工具
+ *
+ * @example
+ * ```typescript
+ * const log = logger.child('taipei-beef-noodles');
+ * const end = log.time('grid-search');
+ * // ... 搜尋
+ * end(); // 輸出耗時並記錄到執行摘要
+ * ```
+ */
+const createLogger = (scope?: string): Logger => ({
+    debug: (message, data) => emit('debug', ICONS.debug, scope, message, data),
+    info: (message, data) => emit('info', ICONS.info, scope, message, data),
+    success: (message, data) => emit('info', ICONS.success, scope, message, data),
+    warn: (message, data) => emit('warn', ICONS.warn, scope, message, data),
+    error: (message, data) => emit('error', ICONS.error, scope, message, data),
+
+    progress: (current, total, message) => {
         const percentage = ((current / total) * 100).toFixed(0);
         const output = message
             ? `${current}/${total} (${percentage}%) - ${message}`
             : `${current}/${total} (${percentage}%)`;
-        console.log(`📊 ${output}`);
+        emit('info', ICONS.progress, scope, output, undefined);
+    },
+
+    child: (childScope) => createLogger(scope ? `${scope}/${childScope}` : childScope),
+
+    time: (label) => {
+        const startedAt = new Date();
+        return () => {
+            const durationMs = Date.now() - startedAt.getTime();
+            history.spans.push({ scope, label, startedAt: startedAt.toISOString(), durationMs });
+            emit('debug', ICONS.debug, scope, `${label} 耗時 ${(durationMs / 1000).toFixed(1)} 秒`, undefined);
+            return durationMs;
+        };
     },
+});
+
+/**
+ * 根日誌工具。
+ *
+ * 提供不同等級的日誌輸出方法，可用 `child()` 建立帶有範圍標記的子日誌。
+ */
+export const logger: Logger = createLogger();
+
+/**
+ * 將本次執行的摘要寫入 logs/。
+ *
+ * 檔名包含開始時間，每次執行各自保留一個檔案。
+ *
+ * @param command - 執行的指令與參數
+ * @param runs - 各爬蟲的執行摘要
+ * @param success - 是否成功
+ * @returns 完整的檔案路徑
+ */
+export const writeRunSummary = (command: string[], runs: ScraperRunSummary[], success: boolean): string => {
+    const finishedAt = new Date();
+    const summary: RunLogSummary = {
+        command,
+        startedAt: history.startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - history.startedAt.getTime(),
+        success,
+        runs,
+        warnings: history.warnings,
+        errors: history.errors,
+        spans: history.spans,
+    };
+
+    const stamp = summary.startedAt.replace(/[:.]/g, '-');
+    return writeJsonFile(`run-${stamp}.json`, summary, LOG_DIRECTORY);
 };
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview 資料清單模組
+ *
+ * 維護 data/manifest.json，列出所有公開端點的更新時間、筆數、大小、雜湊值、
+ * 資料來源、更新頻率與最後一次執行狀態，讓使用者不必閱讀 README 就能找到可用的檔案。
+ * 每次爬蟲執行後由框架更新該爬蟲的端點，其他爬蟲的端點維持不變。
+ */
+
+import fs from 'fs';
+import type { DataManifest, ManifestEndpoint, ManifestOutputResult, ScraperDefinition } from '../types';
+import { toDataRelativePath, tryReadJsonFile, writeJsonFile } from './file';
+import { hashContent } from './hash';
+
+/** 資料清單檔名（位於 data 目錄） */
+const MANIFEST_FILENAME = 'manifest.json';
+
+/** 端點中來自爬蟲定義的欄位 */
+type ManifestScraperInfo = Pick<ScraperDefinition<unknown, unknown>, 'name' | 'description' | 'source' | 'cadence'>;
+
+/**
+ * 讀取既有資料清單的端點。
+ *
+ * @returns 端點列表，清單不存在時為空陣列
+ */
+const readManifestEndpoints = (): ManifestEndpoint[] => {
+    return tryReadJsonFile<DataManifest>(MANIFEST_FILENAME)?.endpoints ?? [];
+};
+
+/**
+ * 依路徑排序後寫出資料清單。
+ *
+ * @param endpoints - 所有端點
+ * @param updated - 清單更新時間（ISO 格式）
+ * @returns 完整的檔案路徑
+ */
+const writeManifest = (endpoints: ManifestEndpoint[], updated: string): string => {
+    const sorted = [...endpoints].sort((a, b) => a.path.localeCompare(b.path));
+    const manifest: DataManifest = { updated, totalEndpoints: sorted.length, endpoints: sorted };
+    return writeJsonFile(MANIFEST_FILENAME, manifest);
+};
+
+/**
+ * 以單次執行的輸出結果更新資料清單。
+ *
+ * 大小與雜湊值一律依磁碟上的檔案計算；保留前一版的檔案沿用前一版的更新時間與筆數，
+ * 內容沒有變化時也維持前一次的更新時間。執行失敗時，該爬蟲所有既有端點都標記為 `failed`。
+ *
+ * @param scraper - 爬蟲定義
+ * @param results - 本次各輸出檔案的結果
+ * @param success - 本次執行是否成功
+ * @param runAt - 執行時間（ISO 格式）
+ * @returns 資料清單的完整路徑
+ */
+export const updateManifest = (
+    scraper: ManifestScraperInfo,
+    results: readonly ManifestOutputResult[],
+    success: boolean,
+    runAt: string,
+): string => {
+    const endpoints = new Map(readManifestEndpoints().map((endpoint) => [endpoint.path, endpoint]));
+
+    for (const result of results) {
+        // 未達品質門檻且沒有前一版的檔案不列入
+        if (!fs.existsSync(result.filePath)) continue;
+
+        const path = toDataRelativePath(result.filePath);
+        const previous = endpoints.get(path);
+        const sha256 = hashContent(fs.readFileSync(result.filePath, 'utf8'));
+        const changed = result.written && previous?.sha256 !== sha256;
+
+        endpoints.set(path, {
+            path,
+            scraper: scraper.name,
+            description: scraper.description,
+            source: scraper.source,
+            cadence: scraper.cadence,
+            updated: changed ? runAt : (previous?.updated ?? null),
+            recordCount: result.written ? result.recordCount : (previous?.recordCount ?? null),
+            bytes: fs.statSync(result.filePath).size,
+            sha256,
+            schema: result.schema,
+            lastRunAt: runAt,
+            lastRunStatus: success ? (result.written ? 'success' : 'held-back') : 'failed',
+        });
+    }
+
+    if (!success) {
+        for (const endpoint of endpoints.values()) {
+            if (endpoint.scraper === scraper.name) {
+                endpoint.lastRunAt = runAt;
+                endpoint.lastRunStatus = 'failed';
+            }
+        }
+    }
+
+    return writeManifest([...endpoints.values()], runAt);
+};
+
+/**
+ * 將另一份資料清單中指定爬蟲的端點併入目前的資料清單。
+ *
+ * 排程在推送前會先拉取其他排程的更新，用此函數把本次執行的端點合併回最新的清單。
+ *
+ * @param source - 包含本次執行結果的資料清單
+ * @param scrapers - 要併入的爬蟲名稱
+ * @returns 資料清單的完整路徑
+ */
+export const mergeManifest = (source: DataManifest, scrapers: readonly string[]): string => {
+    const names = new Set(scrapers);
+    const endpoints = [
+        ...readManifestEndpoints().filter((endpoint) => !names.has(endpoint.scraper)),
+        ...source.endpoints.filter((endpoint) => names.has(endpoint.scraper)),
+    ];
+    return writeManifest(endpoints, new Date().toISOString());
+};
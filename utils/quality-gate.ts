@@ -0,0 +1,67 @@
+/**
+ * @fileoverview 輸出品質門檻模組
+ *
+ * 比對新資料與前一版檔案，判斷是否達到設定的最低品質，
+ * 未達門檻時由呼叫端保留前一版檔案。
+ */
+
+import type { QualityGate } from '../types';
+
+/**
+ * 讀取資料中用來衡量品質的數值欄位。
+ *
+ * @param data - 輸出資料
+ * @param field - 欄位名稱
+ * @returns 欄位數值，無法取得時返回 null
+ */
+const readMetric = (data: unknown, field: string): number | null => {
+    if (data === null || typeof data !== 'object') {
+        return null;
+    }
+    const value = (data as Record<string, unknown>)[field];
+    return typeof value === 'number' ? value : null;
+};
+
+/**
+ * 檢查新資料是否達到品質門檻。
+ *
+ * 沒有前一版檔案、或新資料不少於前一版時一律通過，避免門檻阻擋第一次執行或資料改善。
+ *
+ * @param gate - 品質門檻
+ * @param data - 新資料
+ * @param previous - 前一版資料，不存在時為 null
+ * @returns 未達門檻的原因，通過時返回 null
+ *
+ * @example
+ * ```typescript
+ * const reason = checkQualityGate({ field: 'successCount', min: 9 }, next, previous);
+ * ```
+ */
+export const checkQualityGate = (gate: QualityGate, data: unknown, previous: unknown): string | null => {
+    if (previous === null || previous === undefined) {
+        return null;
+    }
+
+    const current = readMetric(data, gate.field);
+    if (current === null) {
+        return `無法讀取品質指標 ${gate.field}`;
+    }
+
+    const previousValue = readMetric(previous, gate.field);
+    if (previousValue !== null && current >= previousValue) {
+        return null;
+    }
+
+    if (gate.min !== undefined && current < gate.min) {
+        return `${gate.field} 為 ${current}，低於門檻 ${gate.min}`;
+    }
+
+    if (gate.minRatioOfPrevious !== undefined && previousValue !== null && previousValue > 0) {
+        const threshold = previousValue * gate.minRatioOfPrevious;
+        if (current < threshold) {
+            return `${gate.field} 由 ${previousValue} 降為 ${current}，低於前一版的 ${gate.minRatioOfPrevious * 100}%`;
+        }
+    }
+
+    return null;
+};
@@ -0,0 +1,234 @@
+/**
+ * @fileoverview 執行期資料驗證模組
+ *
+ * 提供一組小型的驗證規則建構函數，規則以純資料 ({@link SchemaNode}) 表示，
+ * 並透過型別推導確保與 `types/index.ts` 中的介面一致。
+ */
+
+import type { Schema, SchemaNode, SchemaProperty, ValidationIssue } from '../types';
+
+// ============================================================================
+// 型別推導
+// ============================================================================
+
+/** 選填欄位標記 */
+interface OptionalSchema<T> extends Schema<T> {
+    readonly optional: true;
+}
+
+/** 任意型別的驗證規則（用於泛型約束） */
+interface AnySchema {
+    readonly node: SchemaNode;
+    readonly __type?: (value: never) => unknown;
+}
+
+/** 取得驗證規則對應的資料型別 */
+type InferSchema<S> = S extends Schema<infer T> ? T : never;
+
+/** 展開交集型別，讓推導結果與介面結構相同 */
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+/** 由欄位規則推導物件型別，選填欄位轉為可選屬性 */
+type InferShape<P extends Record<string, AnySchema>> = Flatten<
+    { [K in keyof P as P[K] extends { optional: true } ? never : K]: InferSchema<P[K]> } & {
+        [K in keyof P as P[K] extends { optional: true } ? K : never]?: InferSchema<P[K]>;
+    }
+>;
+
+// ============================================================================
+// 規則建構函數
+// ============================================================================
+
+/**
+ * 將驗證規則包裝為帶型別的 Schema。
+ *
+ * @param node - 驗證規則
+ * @returns 帶型別的 Schema
+ */
+const createSchema = <T>(node: SchemaNode): Schema<T> => ({ node });
+
+/**
+ * 驗證規則建構函數集合。
+ *
+ * @example
+ * ```typescript
+ * const itemSchema: Schema<CopywritingItem> = schema.object({
+ *     id: schema.integer(),
+ *     content: schema.string(),
+ *     length: schema.integer({ minimum: 0 }),
+ *     addedAt: schema.string(),
+ * });
+ * ```
+ */
+export const schema = {
+    /** 字串，可指定正規表示式 */
+    string: (options: { pattern?: string } = {}): Schema<string> => createSchema({ type: 'string', ...options }),
+
+    /** 數字 */
+    number: (options: { minimum?: number } = {}): Schema<number> => createSchema({ type: 'number', ...options }),
+
+    /** 整數 */
+    integer: (options: { minimum?: number } = {}): Schema<number> =>
+        createSchema({ type: 'number', integer: true, ...options }),
+
+    /** 布林值 */
+    boolean: (): Schema<boolean> => createSchema({ type: 'boolean' }),
+
+    /** 不檢查內容 */
+    unknown: (): Schema<unknown> => createSchema({ type: 'unknown' }),
+
+    /** 陣列 */
+    array: <T>(items: Schema<T>): Schema<T[]> => createSchema({ type: 'array', items: items.node }),
+
+    /** 以字串為鍵的物件 */
+    record: <T>(values: Schema<T>): Schema<Record<string, T>> => createSchema({ type: 'record', values: values.node }),
+
+    /** 可為 null */
+    nullable: <T>(inner: Schema<T>): Schema<T | null> =>
+        createSchema({ type: 'union', options: [inner.node, { type: 'null' }] }),
+
+    /** 多種型別之一 */
+    union: <A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> =>
+        createSchema({ type: 'union', options: [a.node, b.node] }),
+
+    /** 選填欄位（僅能用於 object 的欄位） */
+    optional: <T>(inner: Schema<T>): OptionalSchema<T> => ({ node: inner.node, optional: true }),
+
+    /** 物件，未列出的欄位不會檢查 */
+    object: <P extends Record<string, AnySchema>>(shape: P): Schema<InferShape<P>> => {
+        const properties: Record<string, SchemaProperty> = {};
+        for (const [key, value] of Object.entries(shape)) {
+            properties[key] = { schema: value.node, optional: 'optional' in value };
+        }
+        return createSchema({ type: 'object', properties });
+    },
+};
+
+// ============================================================================
+// 驗證函數
+// ============================================================================
+
+/**
+ * 取得值的型別名稱，用於錯誤訊息。
+ *
+ * @param value - 任意值
+ * @returns 型別名稱
+ */
+const describeType = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+/**
+ * 串接欄位路徑。
+ *
+ * @param path - 上層路徑
+ * @param key - 欄位名稱或陣列索引
+ * @returns 完整路徑
+ */
+const joinPath = (path: string, key: string | number): string => {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    return path ? `${path}.${key}` : key;
+};
+
+/**
+ * 依驗證規則檢查資料，收集所有錯誤。
+ *
+ * @param node - 驗證規則
+ * @param value - 要檢查的資料
+ * @param path - 目前的欄位路徑
+ * @returns 錯誤列表
+ */
+const validateNode = (node: SchemaNode, value: unknown, path: string): ValidationIssue[] => {
+    const mismatch = (expected: string): ValidationIssue[] => [
+        { path: path || '(root)', message: `應為 ${expected}，實際為 ${describeType(value)}` },
+    ];
+
+    switch (node.type) {
+        case 'unknown':
+            return [];
+
+        case 'null':
+            return value === null ? [] : mismatch('null');
+
+        case 'boolean':
+            return typeof value === 'boolean' ? [] : mismatch('boolean');
+
+        case 'string':
+            if (typeof value !== 'string') return mismatch('string');
+            if (node.pattern && !new RegExp(node.pattern).test(value)) {
+                return [{ path: path || '(root)', message: `格式不符 ${node.pattern}: "${value}"` }];
+            }
+            return [];
+
+        case 'number':
+            if (typeof value !== 'number' || Number.isNaN(value)) return mismatch(node.integer ? 'integer' : 'number');
+            if (node.integer && !Number.isInteger(value)) return mismatch('integer');
+            if (node.minimum !== undefined && value < node.minimum) {
+                return [{ path: path || '(root)', message: `應大於或等於 ${node.minimum}，實際為 ${value}` }];
+            }
+            return [];
+
+        case 'array':
+            if (!Array.isArray(value)) return mismatch('array');
+            return value.flatMap((item, index) => validateNode(node.items, item, joinPath(path, index)));
+
+        case 'record':
+            if (describeType(value) !== 'object') return mismatch('object');
+            return Object.entries(value as Record<string, unknown>).flatMap(([key, item]) =>
+                validateNode(node.values, item, joinPath(path, key)),
+            );
+
+        case 'object': {
+            if (describeType(value) !== 'object') return mismatch('object');
+            const record = value as Record<string, unknown>;
+            return Object.entries(node.properties).flatMap(([key, property]) => {
+                if (record[key] === undefined) {
+                    return property.optional ? [] : [{ path: joinPath(path, key), message: '缺少必填欄位' }];
+                }
+                return validateNode(property.schema, record[key], joinPath(path, key));
+            });
+        }
+
+        case 'union': {
+            const results = node.options.map((option) => validateNode(option, value, path));
+            if (results.some((issues) => issues.length === 0)) return [];
+            return results.reduce((best, issues) => (issues.length < best.length ? issues : best));
+        }
+    }
+};
+
+/**
+ * 依驗證規則檢查資料。
+ *
+ * @param target - 驗證規則
+ * @param value - 要檢查的資料
+ * @returns 錯誤列表，通過時為空陣列
+ *
+ * @example
+ * ```typescript
+ * const issues = validateSchema(horoscopeOutputSchema, data);
+ * if (issues.length > 0) {
+ *     console.log(formatValidationIssues(issues));
+ * }
+ * ```
+ */
+export const validateSchema = (target: Pick<Schema<unknown>, 'node'>, value: unknown): ValidationIssue[] => {
+    return validateNode(target.node, value, '');
+};
+
+/**
+ * 將驗證錯誤格式化為多行文字報告。
+ *
+ * @param issues - 驗證錯誤
+ * @param limit - 最多列出的筆數
+ * @returns 報告文字
+ */
+export const formatValidationIssues = (issues: ValidationIssue[], limit = 20): string => {
+    const lines = issues.slice(0, limit).map((issue) => `  - ${issue.path}: ${issue.message}`);
+    if (issues.length > limit) {
+        lines.push(`  ...以及其他 ${issues.length - limit} 個錯誤`);
+    }
+    return lines.join('\n');
+};
@@ -0,0 +1,242 @@
+/**
+ * @fileoverview 爬蟲框架模組
+ *
+ * 提供 `defineScraper()` 定義爬蟲，並統一處理計時、更新時間戳記、
+ * 錯誤收集、輸出驗證、品質門檻、檔案寫出與資料清單更新等共用流程。各爬蟲只需實作 fetch、transform 與 outputs。
+ */
+
+import type {
+    Logger,
+    ManifestOutputResult,
+    Scraper,
+    ScraperContext,
+    ScraperDefinition,
+    ScraperOutputFile,
+    ScraperResult,
+    ScraperRunSummary,
+} from '../types';
+import { saveCassette, startCassette } from './cassette';
+import { getDataFilePath, tryReadJsonFile, writeJsonFile, writeTextFile } from './file';
+import { getErrorMessage } from './http';
+import { getSchemaUrl } from './json-schema';
+import { logger } from './logger';
+import { updateManifest } from './manifest';
+import { checkQualityGate } from './quality-gate';
+import { formatValidationIssues, validateSchema } from './schema';
+
+/**
+ * 取得輸出檔案對應的 JSON Schema 網址。
+ *
+ * @param output - 輸出檔案
+ * @returns 公開的規則返回網址，否則為 null
+ */
+const getOutputSchemaUrl = (output: ScraperOutputFile): string | null =>
+    output.schema.published ? getSchemaUrl(output.schema.published) : null;
+
+/**
+ * 計算輸出檔案的資料筆數。
+ *
+ * @param output - 輸出檔案
+ * @returns 資料筆數，無法計算時為 null
+ */
+const countRecords = (output: ScraperOutputFile): number | null => {
+    return output.recordCount ?? (Array.isArray(output.data) ? output.data.length : null);
+};
+
+/**
+ * 更新 data/manifest.json，失敗時只輸出警告，不影響執行結果。
+ *
+ * @param definition - 爬蟲定義
+ * @param results - 本次各輸出檔案的結果
+ * @param success - 本次執行是否成功
+ * @param log - 爬蟲的日誌工具
+ */
+const recordManifest = <TRaw, TData>(
+    definition: ScraperDefinition<TRaw, TData>,
+    results: ManifestOutputResult[],
+    success: boolean,
+    log: Logger,
+): void => {
+    try {
+        updateManifest(definition, results, success, new Date().toISOString());
+    } catch (error) {
+        log.warn('資料清單更新失敗', getErrorMessage(error));
+    }
+};
+
+/**
+ * 依照爬蟲定義執行完整流程。
+ *
+ * @param definition - 爬蟲定義
+ * @returns 執行摘要
+ */
+const runScraper = async <TRaw, TData>(definition: ScraperDefinition<TRaw, TData>): Promise<ScraperRunSummary> => {
+    const log = logger.child(definition.name);
+    const context: ScraperContext = { startTime: Date.now(), errors: [], logger: log };
+    const filePaths: string[] = [];
+    const regressions: string[] = [];
+    const manifestResults: ManifestOutputResult[] = [];
+
+    log.info('開始執行...');
+
+    try {
+        startCassette(definition.name);
+        await definition.setup?.();
+
+        const endFetch = log.time('fetch');
+        const raw = await definition.fetch(context);
+        endFetch();
+
+        const cassettePath = saveCassette();
+        if (cassettePath) {
+            log.info(`已錄製至: ${cassettePath}`);
+        }
+
+        const endTransform = log.time('transform');
+        const data = await definition.transform(raw, context);
+        endTransform();
+
+        const now = new Date();
+        const result: ScraperResult<TData> = {
+            updated: now.toISOString(),
+            updateTime: now.toLocaleString('zh-TW', { timeZone: 'Asia/Taipei' }),
+            processingTimeMs: now.getTime() - context.startTime,
+            errors: context.errors,
+            data,
+        };
+
+        const outputs = definition.outputs(result);
+
+        // 任一輸出不符合驗證規則時，所有檔案都不寫入
+        const invalidOutputs = outputs
+            .map((output) => ({ output, issues: validateSchema(output.schema, output.data) }))
+            .filter(({ issues }) => issues.length > 0);
+
+        if (invalidOutputs.length > 0) {
+            for (const { output, issues } of invalidOutputs) {
+                log.error(
+                    `${output.filename} 資料驗證失敗 (${issues.length} 個錯誤):\n${formatValidationIssues(issues)}`,
+                );
+            }
+            throw new Error(`資料驗證失敗: ${invalidOutputs.map(({ output }) => output.filename).join(', ')}`);
+        }
+
+        const endWrite = log.time('write');
+        const heldBack = new Set<string>();
+        const holdBack = (output: ScraperOutputFile): void => {
+            heldBack.add(output.filename);
+            if (output.manifest !== false) {
+                const filePath = getDataFilePath(output.filename, output.directory);
+                manifestResults.push({
+                    filePath,
+                    recordCount: null,
+                    schema: getOutputSchemaUrl(output),
+                    written: false,
+                });
+            }
+        };
+
+        for (const output of outputs) {
+            const heldBackSource = [output.derivedFrom ?? []].flat().find((source) => heldBack.has(source));
+            if (heldBackSource) {
+                log.warn(`${output.filename} 的來源 ${heldBackSource} 未達品質門檻，保留前一版`);
+                holdBack(output);
+                continue;
+            }
+
+            if (output.qualityGate) {
+                const previous = tryReadJsonFile<unknown>(output.filename, output.directory);
+                const regression = checkQualityGate(output.qualityGate, output.data, previous);
+                if (regression) {
+                    log.warn(`${output.filename} 未達品質門檻，保留前一版: ${regression}`);
+                    regressions.push(`${output.filename}: ${regression}`);
+                    holdBack(output);
+                    continue;
+                }
+            }
+
+            const filePath =
+                output.format === 'text'
+                    ? writeTextFile(output.filename, String(output.data), output.directory)
+                    : writeJsonFile(output.filename, output.data, output.directory);
+            filePaths.push(filePath);
+            if (output.manifest !== false) {
+                manifestResults.push({
+                    filePath,
+                    recordCount: countRecords(output),
+                    schema: getOutputSchemaUrl(output),
+                    written: true,
+                });
+            }
+            log.info(`已保存至: ${filePath}`);
+        }
+        endWrite();
+
+        definition.report?.(result, context);
+
+        const failureReason =
+            filePaths.length === 0 && regressions.length > 0
+                ? '所有輸出皆未達品質門檻'
+                : (definition.verify?.(result) ?? null);
+        if (failureReason) {
+            log.error(failureReason);
+            recordManifest(definition, manifestResults, false, log);
+            return {
+                name: definition.name,
+                success: false,
+                processingTimeMs: result.processingTimeMs,
+                filePaths,
+                regressions,
+                errors: [...context.errors, failureReason],
+            };
+        }
+
+        recordManifest(definition, manifestResults, true, log);
+        log.success(`完成，共寫出 ${filePaths.length} 個檔案`);
+        return {
+            name: definition.name,
+            success: true,
+            processingTimeMs: result.processingTimeMs,
+            filePaths,
+            regressions,
+            errors: context.errors,
+        };
+    } catch (error) {
+        const errorMessage = getErrorMessage(error);
+        log.error('程式執行失敗', errorMessage);
+        recordManifest(definition, manifestResults, false, log);
+        return {
+            name: definition.name,
+            success: false,
+            processingTimeMs: Date.now() - context.startTime,
+            filePaths,
+            regressions,
+            errors: [...context.errors, errorMessage],
+        };
+    }
+};
+
+/**
+ * 定義一個爬蟲。
+ *
+ * @param definition - 爬蟲定義
+ * @returns 可由註冊表執行的爬蟲
+ *
+ * @example
+ * ```typescript
+ * export const exampleScraper = defineScraper({
+ *     name: 'example',
+ *     description: '範例資料',
+ *     source: '範例 API',
+ *     cadence: '每天',
+ *     fetch: async () => fetchItems(),
+ *     transform: (items) => ({ total: items.length, items }),
+ *     outputs: (result) => [{ filename: 'example.json', data: result }],
+ * });
+ * ```
+ */
+export const defineScraper = <TRaw, TData>(definition: ScraperDefinition<TRaw, TData>): Scraper => ({
+    name: definition.name,
+    description: definition.description,
+    run: () => runScraper(definition),
+});